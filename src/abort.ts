@@ -0,0 +1,92 @@
+/**
+ * Cancellation helpers shared by the client and rate limiters
+ */
+
+/** Sleep for `ms`, rejecting with the signal's reason if it aborts first */
+export function abortableSleep(
+	ms: number,
+	signal?: AbortSignal,
+): Promise<void> {
+	if (!signal) {
+		return new Promise((resolve) => setTimeout(resolve, ms));
+	}
+
+	return new Promise((resolve, reject) => {
+		if (signal.aborted) {
+			reject(signal.reason);
+			return;
+		}
+
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal.reason);
+		};
+		const timer = setTimeout(() => {
+			signal.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+/**
+ * Settle with `promise`, or reject as soon as the signal aborts. The
+ * underlying work is not stopped, only no longer waited for - used for
+ * waits that cannot take a signal themselves, such as a shared token
+ * refresh or a fetch implementation that ignores `init.signal`.
+ */
+export function abortable<T>(
+	promise: Promise<T>,
+	signal?: AbortSignal,
+): Promise<T> {
+	if (!signal) return promise;
+	if (signal.aborted) return Promise.reject(signal.reason);
+
+	return new Promise((resolve, reject) => {
+		const onAbort = () => reject(signal.reason);
+		signal.addEventListener("abort", onAbort, { once: true });
+		promise.then(
+			(value) => {
+				signal.removeEventListener("abort", onAbort);
+				resolve(value);
+			},
+			(error) => {
+				signal.removeEventListener("abort", onAbort);
+				reject(error);
+			},
+		);
+	});
+}
+
+/**
+ * A signal that aborts when any of the given ones does. Uses
+ * `AbortSignal.any` where available (Node 18.17+/20.3+), else wires a
+ * controller to each signal's abort event.
+ */
+export function combineSignals(
+	...signals: Array<AbortSignal | undefined>
+): AbortSignal | undefined {
+	const present = signals.filter((s): s is AbortSignal => s !== undefined);
+	if (present.length <= 1) return present[0];
+	if (typeof AbortSignal.any === "function") {
+		return AbortSignal.any(present);
+	}
+
+	const controller = new AbortController();
+	const aborted = present.find((s) => s.aborted);
+	if (aborted) {
+		controller.abort(aborted.reason);
+		return controller.signal;
+	}
+
+	const onAbort = (event: Event) => {
+		for (const signal of present) {
+			signal.removeEventListener("abort", onAbort);
+		}
+		controller.abort((event.target as AbortSignal).reason);
+	};
+	for (const signal of present) {
+		signal.addEventListener("abort", onAbort, { once: true });
+	}
+	return controller.signal;
+}
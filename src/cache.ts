@@ -0,0 +1,36 @@
+/**
+ * Minimal TTL cache for rarely-changing reference data
+ */
+
+interface CacheEntry<T> {
+	value: T;
+	expiresAt: number;
+}
+
+export class TtlCache<T> {
+	private entries = new Map<string, CacheEntry<T>>();
+
+	constructor(private ttlMs: number) {}
+
+	get(key: string): T | undefined {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+		if (Date.now() >= entry.expiresAt) {
+			this.entries.delete(key);
+			return undefined;
+		}
+		return entry.value;
+	}
+
+	set(key: string, value: T): void {
+		this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+	}
+
+	delete(key: string): void {
+		this.entries.delete(key);
+	}
+
+	clear(): void {
+		this.entries.clear();
+	}
+}
@@ -4,31 +4,89 @@
  * Main client class with rate limiting, auto token refresh, and typed API methods
  */
 
+import { Readable } from "node:stream";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { abortable, abortableSleep, combineSignals } from "./abort.js";
+import { TtlCache } from "./cache.js";
+import { diffEntity, hasChanges } from "./diff.js";
 import {
+	abortToError,
+	faultToError,
 	handleQuickBooksError,
+	PaginationError,
 	QB_ERROR_CODES,
 	QuickBooksError,
+	StaleObjectError,
+	TimeBillingError,
+	ValidationError,
 } from "./errors.js";
 import { isTokenExpired, refreshTokens } from "./oauth.js";
+import { runWithConcurrency } from "./pool.js";
+import { createQuery, escapeQueryValue, QueryBuilder } from "./query.js";
+import { InMemoryRateLimiter, logRateLimitWaits } from "./rate-limit.js";
+import { parseReport } from "./reports.js";
+import { createTransport } from "./transport.js";
 import type {
 	Account,
+	AgedReportParams,
 	Attachable,
+	AttachableDownload,
+	BaseEntity,
 	BatchItemRequest,
+	BatchOptions,
 	BatchResponse,
+	BatchResult,
 	Bill,
+	BillableTimeResult,
 	BillPayment,
+	BillTimeActivitiesOptions,
+	CallOptions,
+	CDCResponse,
+	ChangeDataCaptureResult,
+	Class,
 	CompanyInfo,
 	CreditMemo,
 	Customer,
+	DeletedEntity,
+	Department,
+	Deposit,
+	Employee,
+	EntityMap,
+	Estimate,
+	FetchFunction,
+	GeneralLedgerParams,
 	Invoice,
+	InvoiceLine,
 	Item,
+	JournalEntry,
+	ParsedReport,
 	Payment,
+	PaymentMethod,
+	Purchase,
+	PurchaseOrder,
+	QueryIterateOptions,
+	QueryPage,
 	QueryResponse,
 	QuickBooksClientOptions,
 	QuickBooksTokens,
+	RateLimitContext,
+	RateLimiter,
+	ReferenceEntityName,
+	RefundReceipt,
+	ReportName,
+	ReportParams,
+	ReportResponse,
+	SalesReceipt,
+	SendableEntityName,
 	TaxCode,
 	TaxRate,
+	Term,
+	TimeActivity,
 	TokenStore,
+	Transfer,
+	UpdatableEntityName,
+	UpdateOptions,
+	UpdateWithOptions,
 	Vendor,
 	VendorCredit,
 } from "./types.js";
@@ -39,18 +97,57 @@ const API_BASE = {
 	production: "https://quickbooks.api.intuit.com",
 } as const;
 
-/** Rate limit: 500 requests per minute */
-const RATE_LIMIT = 500;
-const RATE_LIMIT_WINDOW_MS = 60 * 1000;
-
 /** Retry configuration */
 const MAX_RETRIES = 3;
 const INITIAL_RETRY_DELAY_MS = 1000;
 
+/** Filters the list methods apply when the caller gives none */
+const LIST_DEFAULT_WHERE: Partial<Record<keyof EntityMap, string>> = {
+	Account: "Active = true",
+	Item: "Active = true",
+};
+
+/** QBO rejects batch requests with more items than this */
+const MAX_BATCH_ITEMS = 30;
+
+/** Hours worked on a time activity, from Hours/Minutes or Start/End times */
+function timeActivityHours(activity: TimeActivity): number {
+	if (activity.Hours != null || activity.Minutes != null) {
+		return (activity.Hours ?? 0) + (activity.Minutes ?? 0) / 60;
+	}
+	if (activity.StartTime && activity.EndTime) {
+		const worked =
+			Date.parse(activity.EndTime) - Date.parse(activity.StartTime);
+		const breakHours =
+			(activity.BreakHours ?? 0) + (activity.BreakMinutes ?? 0) / 60;
+		return Math.max(worked / 3_600_000 - breakHours, 0);
+	}
+	return 0;
+}
+
+/** Per-request overrides for content negotiation */
+interface RequestOptions {
+	/** Response type to request; anything but JSON is returned as a Buffer */
+	accept?: string;
+	/** Request body type; string bodies are sent as-is */
+	contentType?: string;
+	/** Return a non-JSON response body as a Node Readable instead of a Buffer */
+	stream?: boolean;
+	/** Set on retries so they share the first attempt's signal and deadline */
+	signal?: AbortSignal;
+}
+
 export class QuickBooksClient {
 	private config: QuickBooksClientOptions;
 	private tokenStore: TokenStore;
-	private requestTimestamps: number[] = [];
+	private rateLimiter: RateLimiter;
+	/** Shared by reference with every `withOptions` view of this client */
+	private refreshState: { promise: Promise<QuickBooksTokens> | null } = {
+		promise: null,
+	};
+	private callOptions: CallOptions = {};
+	private transport: FetchFunction;
+	private referenceCache: TtlCache<Promise<unknown[]>> | undefined;
 	private onLog: QuickBooksClientOptions["onLog"];
 	private minorVersion: number | undefined;
 
@@ -60,6 +157,65 @@ export class QuickBooksClient {
 		this.tokenStore = options.tokenStore;
 		this.onLog = options.onLog;
 		this.minorVersion = options.minorVersion;
+		this.transport = createTransport(options);
+		if (options.referenceDataCacheTtlMs) {
+			this.referenceCache = new TtlCache(options.referenceDataCacheTtlMs);
+		}
+		this.rateLimiter =
+			options.rateLimiter ??
+			new InMemoryRateLimiter({
+				onWait: logRateLimitWaits(this.log.bind(this)),
+			});
+	}
+
+	/**
+	 * A view of this client whose calls can be cancelled or given a deadline.
+	 * It shares tokens, rate limits and caches with the original. `timeoutMs`
+	 * is one deadline for everything done through the view - every page of
+	 * a queryAll, every step of a helper - starting now, so create a view
+	 * per call or per job. For streamed downloads it also bounds reading
+	 * the stream.
+	 *
+	 * @example
+	 * ```ts
+	 * const controller = new AbortController();
+	 * const invoices = await client
+	 *   .withOptions({ signal: controller.signal, timeoutMs: 10_000 })
+	 *   .getInvoices();
+	 * ```
+	 */
+	withOptions(options: CallOptions): QuickBooksClient {
+		const scoped = Object.create(this) as QuickBooksClient;
+		scoped.callOptions = {
+			signal: combineSignals(
+				this.callOptions.signal,
+				options.signal,
+				options.timeoutMs ? AbortSignal.timeout(options.timeoutMs) : undefined,
+			),
+			requestTimeoutMs:
+				options.requestTimeoutMs ?? this.callOptions.requestTimeoutMs,
+		};
+		return scoped;
+	}
+
+	/** A view without this one's signal and timeout, for work shared between callers */
+	private detached(): QuickBooksClient {
+		const view = Object.create(this) as QuickBooksClient;
+		view.callOptions = {};
+		return view;
+	}
+
+	/**
+	 * Signal for one API request: the view's signal and deadline plus the
+	 * per-request timeout
+	 */
+	private requestSignal(): AbortSignal | undefined {
+		const timeoutMs =
+			this.callOptions.requestTimeoutMs ?? this.config.requestTimeoutMs;
+		return combineSignals(
+			this.callOptions.signal,
+			timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined,
+		);
 	}
 
 	private validateConfig(options: QuickBooksClientOptions): void {
@@ -109,27 +265,53 @@ export class QuickBooksClient {
 	}
 
 	/**
-	 * Rate limiting - ensures we don't exceed 500 requests/minute
+	 * Rate limiting - waits for the per-realm limiter (requests per minute,
+	 * batch quota, concurrent requests), then the shared app-wide limiter if
+	 * one is configured. Returns a callback that frees the concurrency slot;
+	 * it is safe to call more than once.
 	 */
-	private async checkRateLimit(): Promise<void> {
-		const now = Date.now();
-
-		// Remove timestamps older than the rate limit window
-		this.requestTimestamps = this.requestTimestamps.filter(
-			(ts) => now - ts < RATE_LIMIT_WINDOW_MS,
-		);
-
-		// If at rate limit, wait until oldest request expires from window
-		if (this.requestTimestamps.length >= RATE_LIMIT) {
-			const oldestTimestamp = this.requestTimestamps[0];
-			const waitTime = RATE_LIMIT_WINDOW_MS - (now - oldestTimestamp) + 100; // Add small buffer
+	private async checkRateLimit(
+		realmId: string,
+		kind: RateLimitContext["kind"] = "request",
+		signal?: AbortSignal,
+	): Promise<() => Promise<void>> {
+		const context: RateLimitContext = { realmId, kind, signal };
+		await this.rateLimiter.acquire(context);
+
+		// The app-wide limiter is shared by every realm, so it gets no realm key
+		const appLimiter = this.config.appRateLimiter;
+		const appContext: RateLimitContext = { realmId: "", kind, signal };
+		let appAcquired = false;
+
+		let released = false;
+		const release = async () => {
+			if (released) return;
+			released = true;
+			await this.rateLimiter.release?.(context);
+			if (appAcquired) await appLimiter?.release?.(appContext);
+		};
 
-			this.log("warn", `Rate limit reached, waiting ${waitTime}ms`);
-			await new Promise((resolve) => setTimeout(resolve, waitTime));
+		try {
+			if (appLimiter) {
+				const pending = appLimiter.acquire(appContext);
+				try {
+					await abortable(pending, signal);
+					appAcquired = true;
+				} catch (error) {
+					// A limiter that ignores the signal may still grant the slot
+					// after we stop waiting - hand it straight back
+					pending.then(
+						() => appLimiter.release?.(appContext),
+						() => {},
+					);
+					throw error;
+				}
+			}
+		} catch (error) {
+			await release();
+			throw error;
 		}
-
-		// Record this request
-		this.requestTimestamps.push(Date.now());
+		return release;
 	}
 
 	/**
@@ -148,66 +330,132 @@ export class QuickBooksClient {
 		// Check if token needs refresh (with 5 minute buffer)
 		if (isTokenExpired(tokens.expires_at)) {
 			this.log("info", "Token expired, refreshing...");
+			return this.refreshAccessToken(tokens);
+		}
 
-			try {
-				const newTokens = await refreshTokens(
-					this.config,
-					tokens.refresh_token,
-					tokens.realm_id,
-				);
+		return tokens;
+	}
 
-				await this.tokenStore.storeTokens(newTokens);
-				this.log("info", "Token refreshed successfully");
+	/**
+	 * Refresh the access token, merging concurrent callers into a single
+	 * in-flight refresh. Intuit rotates the refresh token on every use, so
+	 * parallel refreshes would invalidate each other.
+	 */
+	private refreshAccessToken(
+		staleTokens: QuickBooksTokens,
+	): Promise<QuickBooksTokens> {
+		if (!this.refreshState.promise) {
+			const run = () => this.performRefresh(staleTokens);
+			const refresh = this.tokenStore.lockRefresh
+				? this.tokenStore.lockRefresh(run)
+				: run();
+
+			this.refreshState.promise = refresh.finally(() => {
+				this.refreshState.promise = null;
+			});
+		}
 
-				return newTokens;
-			} catch (error) {
-				// If refresh fails with 401, clear tokens and require reconnection
-				if (error instanceof QuickBooksError && error.status === 401) {
-					this.log("warn", "Refresh token invalid, clearing tokens");
-					await this.tokenStore.clearTokens();
-				}
-				throw error;
-			}
+		return this.refreshState.promise;
+	}
+
+	/**
+	 * Refresh against the latest stored tokens. If another process already
+	 * rotated them while we waited for the lock, reuse its result.
+	 */
+	private async performRefresh(
+		staleTokens: QuickBooksTokens,
+	): Promise<QuickBooksTokens> {
+		const current = await this.tokenStore.getTokens();
+
+		if (!current) {
+			throw new QuickBooksError(
+				"No tokens found - please connect to QuickBooks first",
+				QB_ERROR_CODES.UNAUTHORIZED,
+			);
 		}
 
-		return tokens;
+		if (
+			current.access_token !== staleTokens.access_token &&
+			!isTokenExpired(current.expires_at)
+		) {
+			this.log("info", "Token already refreshed by another worker");
+			return current;
+		}
+
+		try {
+			const newTokens = await refreshTokens(
+				this.config,
+				current.refresh_token,
+				current.realm_id,
+			);
+
+			await this.tokenStore.storeTokens(newTokens);
+			this.log("info", "Token refreshed successfully");
+
+			return newTokens;
+		} catch (error) {
+			// If refresh fails with 401, clear tokens and require reconnection
+			if (error instanceof QuickBooksError && error.status === 401) {
+				this.log("warn", "Refresh token invalid, clearing tokens");
+				await this.tokenStore.clearTokens();
+			}
+			throw error;
+		}
 	}
 
 	/**
-	 * Make an authenticated API request with retry logic
+	 * Make an authenticated API request with retry logic.
+	 * Non-JSON responses (e.g. `application/pdf`) are returned as a Buffer.
 	 */
 	private async request<T>(
 		method: string,
 		endpoint: string,
 		body?: unknown,
+		options: RequestOptions = {},
 		retryCount = 0,
 	): Promise<T> {
-		await this.checkRateLimit();
+		const signal = options.signal ?? this.requestSignal();
+		const retryOptions = { ...options, signal };
+		let release: (() => Promise<void>) | undefined;
 
-		const tokens = await this.getValidTokens();
-		const env = this.config.environment || "production";
-		const baseUrl = API_BASE[env];
-		const url = this.appendMinorVersion(
-			`${baseUrl}/v3/company/${tokens.realm_id}${endpoint}`,
-		);
+		try {
+			const tokens = await abortable(this.getValidTokens(), signal);
+			release = await this.checkRateLimit(
+				tokens.realm_id,
+				endpoint === "/batch" ? "batch" : "request",
+				signal,
+			);
 
-		this.log("debug", `${method} ${endpoint}`, { body });
+			const env = this.config.environment || "production";
+			const baseUrl = API_BASE[env];
+			const url = this.appendMinorVersion(
+				`${baseUrl}/v3/company/${tokens.realm_id}${endpoint}`,
+			);
+			const accept = options.accept ?? "application/json";
 
-		const headers: Record<string, string> = {
-			Authorization: `Bearer ${tokens.access_token}`,
-			Accept: "application/json",
-		};
+			this.log("debug", `${method} ${endpoint}`, { body });
 
-		if (body) {
-			headers["Content-Type"] = "application/json";
-		}
+			const headers: Record<string, string> = {
+				Authorization: `Bearer ${tokens.access_token}`,
+				Accept: accept,
+			};
 
-		try {
-			const response = await fetch(url, {
-				method,
-				headers,
-				body: body ? JSON.stringify(body) : undefined,
-			});
+			if (body || options.contentType) {
+				headers["Content-Type"] = options.contentType ?? "application/json";
+			}
+
+			const response = await abortable(
+				this.transport(url, {
+					method,
+					headers,
+					body:
+						typeof body === "string" || body == null
+							? body || undefined
+							: JSON.stringify(body),
+					signal,
+				}),
+				signal,
+			);
 
 			// Handle rate limiting with retry
 			if (response.status === 429 && retryCount < MAX_RETRIES) {
@@ -220,26 +468,32 @@ export class QuickBooksClient {
 					"warn",
 					`Rate limited, retrying in ${delay}ms (attempt ${retryCount + 1})`,
 				);
-				await new Promise((resolve) => setTimeout(resolve, delay));
-
-				return this.request<T>(method, endpoint, body, retryCount + 1);
+				// Free the concurrency slot while sleeping
+				await release();
+				await abortableSleep(delay, signal);
+
+				return this.request<T>(
+					method,
+					endpoint,
+					body,
+					retryOptions,
+					retryCount + 1,
+				);
 			}
 
 			// Handle 401 with token refresh retry
 			if (response.status === 401 && retryCount < 1) {
 				this.log("warn", "Got 401, attempting token refresh");
 
-				const tokens = await this.tokenStore.getTokens();
-				if (tokens) {
-					const newTokens = await refreshTokens(
-						this.config,
-						tokens.refresh_token,
-						tokens.realm_id,
-					);
-					await this.tokenStore.storeTokens(newTokens);
-
-					return this.request<T>(method, endpoint, body, retryCount + 1);
-				}
+				await release();
+				await abortable(this.refreshAccessToken(tokens), signal);
+				return this.request<T>(
+					method,
+					endpoint,
+					body,
+					retryOptions,
+					retryCount + 1,
+				);
 			}
 
 			if (!response.ok) {
@@ -250,46 +504,117 @@ export class QuickBooksClient {
 				throw { status: response.status, ...errorData };
 			}
 
+			if (accept !== "application/json") {
+				if (options.stream) {
+					return (
+						response.body
+							? Readable.fromWeb(response.body as NodeReadableStream)
+							: Readable.from([])
+					) as T;
+				}
+				return Buffer.from(await response.arrayBuffer()) as T;
+			}
+
 			return (await response.json()) as T;
 		} catch (error) {
-			throw handleQuickBooksError(error);
+			throw signal?.aborted
+				? abortToError(signal.reason)
+				: handleQuickBooksError(error);
+		} finally {
+			await release?.();
 		}
 	}
 
 	/**
-	 * Execute a query using QuickBooks Query Language
+	 * Email a transaction through QuickBooks. Without an address QBO uses
+	 * the BillEmail already on the transaction.
 	 */
-	async query<T>(sql: string): Promise<T[]> {
-		const tokens = await this.getValidTokens();
-		const env = this.config.environment || "production";
-		const baseUrl = API_BASE[env];
-		const url = this.appendMinorVersion(
-			`${baseUrl}/v3/company/${tokens.realm_id}/query`,
+	private async sendTransaction<T>(
+		entity: SendableEntityName,
+		id: string,
+		email?: string,
+	): Promise<T> {
+		const query = email ? `?sendTo=${encodeURIComponent(email)}` : "";
+		const response = await this.request<Record<string, T>>(
+			"POST",
+			`/${entity.toLowerCase()}/${id}/send${query}`,
+			undefined,
+			{ contentType: "application/octet-stream" },
 		);
+		return response[entity];
+	}
 
-		await this.checkRateLimit();
+	/** Request body for an update; sparse updates leave omitted fields as they are */
+	private updateBody<T>(entity: T, options: UpdateOptions): T {
+		return options.sparse ? { ...entity, sparse: true } : entity;
+	}
 
-		const fetchResponse = await fetch(url, {
-			method: "POST",
-			headers: {
-				Authorization: `Bearer ${tokens.access_token}`,
-				Accept: "application/json",
-				"Content-Type": "application/text",
-			},
-			body: sql,
-		});
+	/**
+	 * Void a transaction, keeping it on record with zero amounts
+	 */
+	private async voidTransaction<T>(
+		entity: string,
+		id: string,
+		syncToken: string,
+	): Promise<T> {
+		const response = await this.request<Record<string, T>>(
+			"POST",
+			`/${entity.toLowerCase()}?include=void`,
+			{ Id: id, SyncToken: syncToken, sparse: true },
+		);
+		return response[entity];
+	}
 
-		if (!fetchResponse.ok) {
-			const errorData = (await fetchResponse
-				.json()
-				.catch(() => ({}))) as Record<string, unknown>;
-			throw handleQuickBooksError({
-				status: fetchResponse.status,
-				...errorData,
-			});
+	/**
+	 * Download the PDF rendering of a transaction
+	 */
+	private async getTransactionPdf(
+		entity: SendableEntityName,
+		id: string,
+	): Promise<Buffer> {
+		return this.request<Buffer>(
+			"GET",
+			`/${entity.toLowerCase()}/${id}/pdf`,
+			undefined,
+			{ accept: "application/pdf" },
+		);
+	}
+
+	/**
+	 * Build the statement for a getX list method from a raw WHERE clause or
+	 * a query builder. Falls back to the default filter when none is given.
+	 */
+	private listQuery<T>(
+		entity: string,
+		where?: string | QueryBuilder<T>,
+		defaultWhere?: string,
+	): string {
+		if (where instanceof QueryBuilder) {
+			if (where.entity !== entity) {
+				throw new QuickBooksError(
+					`Query targets ${where.entity}, expected ${entity}`,
+					QB_ERROR_CODES.INVALID_QUERY,
+				);
+			}
+			return where.toString();
 		}
 
-		const data = (await fetchResponse.json()) as QueryResponse<T>;
+		const filter = where || defaultWhere;
+		return filter
+			? `SELECT * FROM ${entity} WHERE ${filter}`
+			: `SELECT * FROM ${entity}`;
+	}
+
+	/**
+	 * Execute a query using QuickBooks Query Language
+	 */
+	async query<T>(sql: string | QueryBuilder<T>): Promise<T[]> {
+		const data = await this.request<QueryResponse<T>>(
+			"POST",
+			"/query",
+			sql.toString(),
+			{ contentType: "application/text" },
+		);
 
 		// Extract the entity array from QueryResponse
 		const keys = Object.keys(data.QueryResponse).filter(
@@ -301,74 +626,146 @@ export class QuickBooksClient {
 	}
 
 	/**
-	 * Execute a query with automatic pagination to fetch all results
-	 * @param sql - Base SQL query (without STARTPOSITION/MAXRESULTS)
+	 * Execute a query with automatic pagination to fetch all results.
+	 *
+	 * If a page still fails after the usual retries, a PaginationError is
+	 * thrown holding the results fetched so far and the position to resume
+	 * from, so the pages already read are not lost.
+	 *
+	 * @param sql - Base SQL query or builder (without STARTPOSITION/MAXRESULTS)
 	 * @param pageSize - Number of results per page (default 1000, max 1000)
+	 * @param options - `startPosition` to resume from, `signal` to cancel
+	 *
+	 * @example
+	 * ```ts
+	 * try {
+	 *   bills = await client.queryAll<Bill>(sql);
+	 * } catch (error) {
+	 *   if (!(error instanceof PaginationError)) throw error;
+	 *   const rest = await client.queryAll<Bill>(sql, 1000, {
+	 *     startPosition: error.resumeFrom,
+	 *   });
+	 *   bills = [...error.results, ...rest];
+	 * }
+	 * ```
 	 */
-	async queryAll<T>(sql: string, pageSize = 1000): Promise<T[]> {
+	async queryAll<T>(
+		sql: string | QueryBuilder<T>,
+		pageSize = 1000,
+		options: Omit<QueryIterateOptions, "pageSize"> = {},
+	): Promise<T[]> {
 		const allResults: T[] = [];
-		let startPosition = 1;
-		const maxResults = Math.min(pageSize, 1000);
-
-		while (true) {
-			const paginatedSql = `${sql} STARTPOSITION ${startPosition} MAXRESULTS ${maxResults}`;
-
-			const tokens = await this.getValidTokens();
-			const env = this.config.environment || "production";
-			const baseUrl = API_BASE[env];
-			const url = this.appendMinorVersion(
-				`${baseUrl}/v3/company/${tokens.realm_id}/query`,
-			);
+		let resumeFrom = options.startPosition ?? 1;
 
-			await this.checkRateLimit();
+		try {
+			for await (const page of this.iteratePages(sql, {
+				...options,
+				pageSize,
+			})) {
+				allResults.push(...page.items);
 
-			const fetchResponse = await fetch(url, {
-				method: "POST",
-				headers: {
-					Authorization: `Bearer ${tokens.access_token}`,
-					Accept: "application/json",
-					"Content-Type": "application/text",
-				},
-				body: paginatedSql,
-			});
+				this.log(
+					"debug",
+					`Fetched page at position ${page.startPosition}, got ${page.items.length} results (total: ${allResults.length})`,
+				);
 
-			if (!fetchResponse.ok) {
-				const errorData = (await fetchResponse
-					.json()
-					.catch(() => ({}))) as Record<string, unknown>;
-				throw handleQuickBooksError({
-					status: fetchResponse.status,
-					...errorData,
-				});
+				resumeFrom = page.nextStartPosition ?? resumeFrom;
 			}
+		} catch (error) {
+			// Nothing to salvage if the caller cancelled or the first page failed
+			const failure = handleQuickBooksError(error);
+			if (failure.code === QB_ERROR_CODES.ABORTED || allResults.length === 0) {
+				throw failure;
+			}
+			throw new PaginationError(failure, allResults, resumeFrom);
+		}
 
-			const data = (await fetchResponse.json()) as QueryResponse<T>;
+		return allResults;
+	}
 
-			// Extract the entity array from QueryResponse
-			const keys = Object.keys(data.QueryResponse).filter(
-				(k) => !["startPosition", "maxResults", "totalCount"].includes(k),
-			);
-			const entityKey = keys[0];
-			const pageResults = entityKey
-				? (data.QueryResponse[entityKey] as T[])
-				: [];
+	/**
+	 * Lazily page through a query, one request per page. Breaking out of
+	 * the loop stops further requests. Each page reports `nextStartPosition`,
+	 * which can be passed back as `startPosition` to resume later.
+	 *
+	 * @example
+	 * ```ts
+	 * for await (const page of client.iteratePages<Bill>("SELECT * FROM Bill")) {
+	 *   await save(page.items);
+	 *   await checkpoint(page.nextStartPosition);
+	 * }
+	 * ```
+	 */
+	async *iteratePages<T>(
+		sql: string | QueryBuilder<T>,
+		options: QueryIterateOptions = {},
+	): AsyncGenerator<QueryPage<T>> {
+		const maxResults = Math.min(options.pageSize ?? 1000, 1000);
+		let startPosition = options.startPosition ?? 1;
+		const { signal } = options;
+		const client = signal ? this.withOptions({ signal }) : this;
 
-			allResults.push(...pageResults);
+		while (true) {
+			if (signal?.aborted) throw abortToError(signal.reason);
 
-			this.log(
-				"debug",
-				`Fetched page at position ${startPosition}, got ${pageResults.length} results (total: ${allResults.length})`,
+			const items = await client.query<T>(
+				`${sql.toString()} STARTPOSITION ${startPosition} MAXRESULTS ${maxResults}`,
 			);
+			if (items.length === 0) return;
 
-			// If we got fewer results than requested, we've reached the end
-			if (pageResults.length < maxResults) {
-				break;
-			}
+			const done = items.length < maxResults;
+			yield {
+				items,
+				startPosition,
+				nextStartPosition: done ? undefined : startPosition + maxResults,
+			};
+			if (done) return;
 
 			startPosition += maxResults;
 		}
+	}
 
-		return allResults;
+	/**
+	 * Lazily iterate over every result of a query without holding more than
+	 * one page in memory
+	 *
+	 * @example
+	 * ```ts
+	 * for await (const invoice of client.iterate<Invoice>(createQuery("Invoice"))) {
+	 *   if (invoice.Balance === 0) continue;
+	 *   ...
+	 * }
+	 * ```
+	 */
+	async *iterate<T>(
+		sql: string | QueryBuilder<T>,
+		options: QueryIterateOptions = {},
+	): AsyncGenerator<T> {
+		for await (const page of this.iteratePages(sql, options)) {
+			yield* page.items;
+		}
+	}
+
+	/**
+	 * Streaming counterpart of the `getXs` list methods, applying the same
+	 * default filters (e.g. active Accounts and Items only)
+	 *
+	 * @example
+	 * ```ts
+	 * for await (const txn of client.iterateEntities("Purchase", "TxnDate >= '2024-01-01'")) {
+	 *   ...
+	 * }
+	 * ```
+	 */
+	iterateEntities<E extends keyof EntityMap>(
+		entity: E,
+		where?: string | QueryBuilder<EntityMap[E]>,
+		options: QueryIterateOptions = {},
+	): AsyncGenerator<EntityMap[E]> {
+		return this.iterate<EntityMap[E]>(
+			this.listQuery(entity, where, LIST_DEFAULT_WHERE[entity]),
+			options,
+		);
 	}
 
 	// ============================================
@@ -383,11 +780,10 @@ export class QuickBooksClient {
 		return response.Invoice;
 	}
 
-	async getInvoices(where?: string): Promise<Invoice[]> {
-		const sql = where
-			? `SELECT * FROM Invoice WHERE ${where}`
-			: "SELECT * FROM Invoice";
-		return this.queryAll<Invoice>(sql);
+	async getInvoices(
+		where?: string | QueryBuilder<Invoice>,
+	): Promise<Invoice[]> {
+		return this.queryAll<Invoice>(this.listQuery("Invoice", where));
 	}
 
 	async createInvoice(invoice: Partial<Invoice>): Promise<Invoice> {
@@ -399,11 +795,14 @@ export class QuickBooksClient {
 		return response.Invoice;
 	}
 
-	async updateInvoice(invoice: Invoice): Promise<Invoice> {
+	async updateInvoice(
+		invoice: Invoice,
+		options: UpdateOptions = {},
+	): Promise<Invoice> {
 		const response = await this.request<{ Invoice: Invoice }>(
 			"POST",
 			"/invoice",
-			invoice,
+			this.updateBody(invoice, options),
 		);
 		return response.Invoice;
 	}
@@ -415,119 +814,703 @@ export class QuickBooksClient {
 		});
 	}
 
+	/**
+	 * Email an invoice. Without an address QBO uses the invoice's BillEmail.
+	 */
+	async sendInvoice(id: string, email?: string): Promise<Invoice> {
+		return this.sendTransaction<Invoice>("Invoice", id, email);
+	}
+
+	async getInvoicePdf(id: string): Promise<Buffer> {
+		return this.getTransactionPdf("Invoice", id);
+	}
+
+	/**
+	 * Stream the PDF of any sendable transaction (Invoice, CreditMemo,
+	 * Estimate, SalesReceipt, RefundReceipt, PurchaseOrder) without
+	 * buffering it in memory.
+	 */
+	async getPdfStream(
+		entity: SendableEntityName,
+		id: string,
+	): Promise<Readable> {
+		return this.request<Readable>(
+			"GET",
+			`/${entity.toLowerCase()}/${id}/pdf`,
+			undefined,
+			{ accept: "application/pdf", stream: true },
+		);
+	}
+
 	// ============================================
-	// Customer Methods
+	// Estimate Methods (quotes)
 	// ============================================
 
-	async getCustomer(id: string): Promise<Customer> {
-		const response = await this.request<{ Customer: Customer }>(
+	async getEstimate(id: string): Promise<Estimate> {
+		const response = await this.request<{ Estimate: Estimate }>(
 			"GET",
-			`/customer/${id}`,
+			`/estimate/${id}`,
 		);
-		return response.Customer;
+		return response.Estimate;
 	}
 
-	async getCustomers(where?: string): Promise<Customer[]> {
-		const sql = where
-			? `SELECT * FROM Customer WHERE ${where}`
-			: "SELECT * FROM Customer";
-		return this.queryAll<Customer>(sql);
+	async getEstimates(
+		where?: string | QueryBuilder<Estimate>,
+	): Promise<Estimate[]> {
+		return this.queryAll<Estimate>(this.listQuery("Estimate", where));
 	}
 
-	async createCustomer(customer: Partial<Customer>): Promise<Customer> {
-		const response = await this.request<{ Customer: Customer }>(
+	async createEstimate(estimate: Partial<Estimate>): Promise<Estimate> {
+		const response = await this.request<{ Estimate: Estimate }>(
 			"POST",
-			"/customer",
-			customer,
+			"/estimate",
+			estimate,
 		);
-		return response.Customer;
+		return response.Estimate;
 	}
 
-	async updateCustomer(customer: Customer): Promise<Customer> {
-		const response = await this.request<{ Customer: Customer }>(
+	async updateEstimate(
+		estimate: Estimate,
+		options: UpdateOptions = {},
+	): Promise<Estimate> {
+		const response = await this.request<{ Estimate: Estimate }>(
 			"POST",
-			"/customer",
-			customer,
+			"/estimate",
+			this.updateBody(estimate, options),
 		);
-		return response.Customer;
+		return response.Estimate;
 	}
 
-	// ============================================
-	// Payment Methods
-	// ============================================
-
-	async getPayment(id: string): Promise<Payment> {
-		const response = await this.request<{ Payment: Payment }>(
-			"GET",
-			`/payment/${id}`,
-		);
-		return response.Payment;
+	async deleteEstimate(id: string, syncToken: string): Promise<void> {
+		await this.request("POST", "/estimate?operation=delete", {
+			Id: id,
+			SyncToken: syncToken,
+		});
 	}
 
-	async getPayments(where?: string): Promise<Payment[]> {
-		const sql = where
-			? `SELECT * FROM Payment WHERE ${where}`
-			: "SELECT * FROM Payment";
-		return this.queryAll<Payment>(sql);
+	async sendEstimate(id: string, email?: string): Promise<Estimate> {
+		return this.sendTransaction<Estimate>("Estimate", id, email);
 	}
 
-	async createPayment(payment: Partial<Payment>): Promise<Payment> {
-		const response = await this.request<{ Payment: Payment }>(
-			"POST",
-			"/payment",
-			payment,
-		);
-		return response.Payment;
+	async getEstimatePdf(id: string): Promise<Buffer> {
+		return this.getTransactionPdf("Estimate", id);
 	}
 
-	// ============================================
-	// Account Methods
-	// ============================================
+	/**
+	 * Create an Invoice from an estimate, copying customer, lines and tax
+	 * detail and linking back to the estimate. QBO then closes the estimate.
+	 */
+	async convertEstimateToInvoice(
+		estimate: Estimate | string,
+		overrides: Partial<Invoice> = {},
+	): Promise<Invoice> {
+		const source =
+			typeof estimate === "string"
+				? await this.getEstimate(estimate)
+				: estimate;
+
+		if (!source.Id) {
+			throw new QuickBooksError(
+				"Estimate must be saved before converting to an invoice",
+				QB_ERROR_CODES.INVALID_CONFIG,
+			);
+		}
+		if (source.TxnStatus === "Closed" || source.TxnStatus === "Rejected") {
+			throw new QuickBooksError(
+				`Estimate ${source.Id} is ${source.TxnStatus} and cannot be invoiced`,
+				QB_ERROR_CODES.INVALID_CONFIG,
+			);
+		}
 
-	async getAccount(id: string): Promise<Account> {
-		const response = await this.request<{ Account: Account }>(
-			"GET",
-			`/account/${id}`,
-		);
-		return response.Account;
-	}
+		const invoice: Partial<Invoice> = {
+			CustomerRef: source.CustomerRef,
+			Line: source.Line?.map(({ Id: _id, ...line }) => line),
+			BillEmail: source.BillEmail,
+			CurrencyRef: source.CurrencyRef,
+			DepartmentRef: source.DepartmentRef,
+			TxnTaxDetail: source.TxnTaxDetail && {
+				TxnTaxCodeRef: source.TxnTaxDetail.TxnTaxCodeRef,
+				TotalTax: source.TxnTaxDetail.TotalTax,
+				TaxLine: source.TxnTaxDetail.TaxLine,
+			},
+			LinkedTxn: [{ TxnId: source.Id, TxnType: "Estimate" }],
+			...overrides,
+		};
 
-	async getAccounts(where?: string): Promise<Account[]> {
-		const sql = where
-			? `SELECT * FROM Account WHERE ${where}`
-			: "SELECT * FROM Account WHERE Active = true";
-		return this.queryAll<Account>(sql);
+		return this.createInvoice(invoice);
 	}
 
 	// ============================================
-	// Vendor Methods
+	// SalesReceipt Methods
 	// ============================================
 
-	async getVendor(id: string): Promise<Vendor> {
-		const response = await this.request<{ Vendor: Vendor }>(
+	async getSalesReceipt(id: string): Promise<SalesReceipt> {
+		const response = await this.request<{ SalesReceipt: SalesReceipt }>(
 			"GET",
-			`/vendor/${id}`,
+			`/salesreceipt/${id}`,
 		);
-		return response.Vendor;
+		return response.SalesReceipt;
 	}
 
-	async getVendors(where?: string): Promise<Vendor[]> {
-		const sql = where
-			? `SELECT * FROM Vendor WHERE ${where}`
-			: "SELECT * FROM Vendor";
-		return this.queryAll<Vendor>(sql);
+	async getSalesReceipts(
+		where?: string | QueryBuilder<SalesReceipt>,
+	): Promise<SalesReceipt[]> {
+		return this.queryAll<SalesReceipt>(this.listQuery("SalesReceipt", where));
 	}
 
-	async createVendor(vendor: Partial<Vendor>): Promise<Vendor> {
-		const response = await this.request<{ Vendor: Vendor }>(
+	async createSalesReceipt(
+		salesReceipt: Partial<SalesReceipt>,
+	): Promise<SalesReceipt> {
+		const response = await this.request<{ SalesReceipt: SalesReceipt }>(
 			"POST",
-			"/vendor",
-			vendor,
+			"/salesreceipt",
+			salesReceipt,
+		);
+		return response.SalesReceipt;
+	}
+
+	async updateSalesReceipt(
+		salesReceipt: SalesReceipt,
+		options: UpdateOptions = {},
+	): Promise<SalesReceipt> {
+		const response = await this.request<{ SalesReceipt: SalesReceipt }>(
+			"POST",
+			"/salesreceipt",
+			this.updateBody(salesReceipt, options),
+		);
+		return response.SalesReceipt;
+	}
+
+	async deleteSalesReceipt(id: string, syncToken: string): Promise<void> {
+		await this.request("POST", "/salesreceipt?operation=delete", {
+			Id: id,
+			SyncToken: syncToken,
+		});
+	}
+
+	async voidSalesReceipt(id: string, syncToken: string): Promise<SalesReceipt> {
+		return this.voidTransaction<SalesReceipt>("SalesReceipt", id, syncToken);
+	}
+
+	async sendSalesReceipt(id: string, email?: string): Promise<SalesReceipt> {
+		return this.sendTransaction<SalesReceipt>("SalesReceipt", id, email);
+	}
+
+	async getSalesReceiptPdf(id: string): Promise<Buffer> {
+		return this.getTransactionPdf("SalesReceipt", id);
+	}
+
+	// ============================================
+	// RefundReceipt Methods
+	// ============================================
+
+	async getRefundReceipt(id: string): Promise<RefundReceipt> {
+		const response = await this.request<{ RefundReceipt: RefundReceipt }>(
+			"GET",
+			`/refundreceipt/${id}`,
+		);
+		return response.RefundReceipt;
+	}
+
+	async getRefundReceipts(
+		where?: string | QueryBuilder<RefundReceipt>,
+	): Promise<RefundReceipt[]> {
+		return this.queryAll<RefundReceipt>(this.listQuery("RefundReceipt", where));
+	}
+
+	async createRefundReceipt(
+		refundReceipt: Partial<RefundReceipt>,
+	): Promise<RefundReceipt> {
+		const response = await this.request<{ RefundReceipt: RefundReceipt }>(
+			"POST",
+			"/refundreceipt",
+			refundReceipt,
+		);
+		return response.RefundReceipt;
+	}
+
+	async updateRefundReceipt(
+		refundReceipt: RefundReceipt,
+		options: UpdateOptions = {},
+	): Promise<RefundReceipt> {
+		const response = await this.request<{ RefundReceipt: RefundReceipt }>(
+			"POST",
+			"/refundreceipt",
+			this.updateBody(refundReceipt, options),
+		);
+		return response.RefundReceipt;
+	}
+
+	async deleteRefundReceipt(id: string, syncToken: string): Promise<void> {
+		await this.request("POST", "/refundreceipt?operation=delete", {
+			Id: id,
+			SyncToken: syncToken,
+		});
+	}
+
+	async sendRefundReceipt(id: string, email?: string): Promise<RefundReceipt> {
+		return this.sendTransaction<RefundReceipt>("RefundReceipt", id, email);
+	}
+
+	async getRefundReceiptPdf(id: string): Promise<Buffer> {
+		return this.getTransactionPdf("RefundReceipt", id);
+	}
+
+	// ============================================
+	// Customer Methods
+	// ============================================
+
+	async getCustomer(id: string): Promise<Customer> {
+		const response = await this.request<{ Customer: Customer }>(
+			"GET",
+			`/customer/${id}`,
+		);
+		return response.Customer;
+	}
+
+	async getCustomers(
+		where?: string | QueryBuilder<Customer>,
+	): Promise<Customer[]> {
+		return this.queryAll<Customer>(this.listQuery("Customer", where));
+	}
+
+	async createCustomer(customer: Partial<Customer>): Promise<Customer> {
+		const response = await this.request<{ Customer: Customer }>(
+			"POST",
+			"/customer",
+			customer,
+		);
+		return response.Customer;
+	}
+
+	async updateCustomer(
+		customer: Customer,
+		options: UpdateOptions = {},
+	): Promise<Customer> {
+		const response = await this.request<{ Customer: Customer }>(
+			"POST",
+			"/customer",
+			this.updateBody(customer, options),
+		);
+		return response.Customer;
+	}
+
+	// ============================================
+	// Employee Methods
+	// ============================================
+
+	async getEmployee(id: string): Promise<Employee> {
+		const response = await this.request<{ Employee: Employee }>(
+			"GET",
+			`/employee/${id}`,
+		);
+		return response.Employee;
+	}
+
+	async getEmployees(
+		where?: string | QueryBuilder<Employee>,
+	): Promise<Employee[]> {
+		return this.queryAll<Employee>(this.listQuery("Employee", where));
+	}
+
+	async createEmployee(employee: Partial<Employee>): Promise<Employee> {
+		const response = await this.request<{ Employee: Employee }>(
+			"POST",
+			"/employee",
+			employee,
+		);
+		return response.Employee;
+	}
+
+	async updateEmployee(
+		employee: Employee,
+		options: UpdateOptions = {},
+	): Promise<Employee> {
+		const response = await this.request<{ Employee: Employee }>(
+			"POST",
+			"/employee",
+			this.updateBody(employee, options),
+		);
+		return response.Employee;
+	}
+
+	// ============================================
+	// TimeActivity Methods
+	// ============================================
+
+	async getTimeActivity(id: string): Promise<TimeActivity> {
+		const response = await this.request<{ TimeActivity: TimeActivity }>(
+			"GET",
+			`/timeactivity/${id}`,
+		);
+		return response.TimeActivity;
+	}
+
+	async getTimeActivities(
+		where?: string | QueryBuilder<TimeActivity>,
+	): Promise<TimeActivity[]> {
+		return this.queryAll<TimeActivity>(this.listQuery("TimeActivity", where));
+	}
+
+	async createTimeActivity(
+		timeActivity: Partial<TimeActivity>,
+	): Promise<TimeActivity> {
+		const response = await this.request<{ TimeActivity: TimeActivity }>(
+			"POST",
+			"/timeactivity",
+			timeActivity,
+		);
+		return response.TimeActivity;
+	}
+
+	async updateTimeActivity(
+		timeActivity: TimeActivity,
+		options: UpdateOptions = {},
+	): Promise<TimeActivity> {
+		const response = await this.request<{ TimeActivity: TimeActivity }>(
+			"POST",
+			"/timeactivity",
+			this.updateBody(timeActivity, options),
+		);
+		return response.TimeActivity;
+	}
+
+	async deleteTimeActivity(id: string, syncToken: string): Promise<void> {
+		await this.request("POST", "/timeactivity?operation=delete", {
+			Id: id,
+			SyncToken: syncToken,
+		});
+	}
+
+	/**
+	 * Collect a customer's billable time between two dates (inclusive,
+	 * YYYY-MM-DD) and build one invoice line per activity.
+	 *
+	 * Pass an `invoice` draft to create the invoice from the lines in the
+	 * same call; the activities are marked HasBeenBilled only once it has
+	 * been created. Without one nothing is marked - create the invoice
+	 * yourself, then call markTimeActivitiesBilled.
+	 *
+	 * @example
+	 * ```ts
+	 * const { invoice } = await client.billTimeActivities("42", "2024-01-01", "2024-01-31", {
+	 *   invoice: { DueDate: "2024-02-29" },
+	 * });
+	 * ```
+	 */
+	async billTimeActivities(
+		customerId: string,
+		startDate: string,
+		endDate: string,
+		options: BillTimeActivitiesOptions = {},
+	): Promise<BillableTimeResult> {
+		const all = await this.getTimeActivities(
+			createQuery("TimeActivity")
+				.where("CustomerRef", "=", customerId)
+				.where("TxnDate", ">=", startDate)
+				.where("TxnDate", "<=", endDate)
+				.orderBy("TxnDate"),
+		);
+		const activities = all.filter((a) => a.BillableStatus === "Billable");
+
+		// QBO rejects sales lines without an item, and a missing rate would
+		// bill the hours at zero - fail before anything is written
+		const missingItem = options.itemId
+			? []
+			: activities.filter((a) => !a.ItemRef).map((a) => a.Id);
+		if (missingItem.length > 0) {
+			throw new ValidationError(
+				`TimeActivity ${missingItem.join(", ")} has no ItemRef; pass itemId to bill it`,
+				undefined,
+				{ missing: missingItem },
+			);
+		}
+		const missingRate =
+			options.hourlyRate === undefined
+				? activities.filter((a) => a.HourlyRate == null).map((a) => a.Id)
+				: [];
+		if (missingRate.length > 0) {
+			throw new ValidationError(
+				`TimeActivity ${missingRate.join(", ")} has no HourlyRate; pass hourlyRate to bill it`,
+				undefined,
+				{ missing: missingRate },
+			);
+		}
+
+		const lines: InvoiceLine[] = activities.map((activity) => {
+			const hours = Math.round(timeActivityHours(activity) * 100) / 100;
+			const rate = activity.HourlyRate ?? (options.hourlyRate as number);
+			const who = activity.EmployeeRef?.name ?? activity.VendorRef?.name;
+
+			return {
+				Amount: Math.round(hours * rate * 100) / 100,
+				Description:
+					activity.Description ??
+					[activity.TxnDate, who].filter(Boolean).join(" - "),
+				DetailType: "SalesItemLineDetail",
+				SalesItemLineDetail: {
+					ItemRef: activity.ItemRef ?? { value: options.itemId as string },
+					Qty: hours,
+					UnitPrice: rate,
+				},
+			};
+		});
+
+		if (!options.invoice || activities.length === 0) {
+			return { lines, activities };
+		}
+
+		const invoice = await this.createInvoice({
+			CustomerRef: { value: customerId },
+			...options.invoice,
+			Line: [...(options.invoice.Line ?? []), ...lines],
+		});
+
+		try {
+			const billed = await this.markTimeActivitiesBilled(activities);
+			return { lines, activities: billed, invoice };
+		} catch (error) {
+			// Keep the invoice with the error so the hours are not invoiced twice
+			if (error instanceof TimeBillingError) {
+				error.invoice = invoice;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Mark activities HasBeenBilled once the invoice covering them exists.
+	 * Only BillableStatus is sent, so other fields are left untouched. Every
+	 * activity is attempted; if any fail, a TimeBillingError lists the ones
+	 * still Billable so they can be retried on their own.
+	 */
+	async markTimeActivitiesBilled(
+		activities: TimeActivity[],
+	): Promise<TimeActivity[]> {
+		const billed: TimeActivity[] = [];
+		const unbilledIds: string[] = [];
+		let firstError: QuickBooksError | undefined;
+
+		for (const activity of activities) {
+			try {
+				billed.push(
+					await this.updateTimeActivity(
+						{
+							Id: activity.Id,
+							SyncToken: activity.SyncToken,
+							BillableStatus: "HasBeenBilled",
+						},
+						{ sparse: true },
+					),
+				);
+			} catch (error) {
+				firstError ??= handleQuickBooksError(error);
+				unbilledIds.push(activity.Id as string);
+			}
+		}
+
+		if (firstError) {
+			throw new TimeBillingError(firstError, billed, unbilledIds);
+		}
+		return billed;
+	}
+
+	// ============================================
+	// Payment Methods
+	// ============================================
+
+	async getPayment(id: string): Promise<Payment> {
+		const response = await this.request<{ Payment: Payment }>(
+			"GET",
+			`/payment/${id}`,
+		);
+		return response.Payment;
+	}
+
+	async getPayments(
+		where?: string | QueryBuilder<Payment>,
+	): Promise<Payment[]> {
+		return this.queryAll<Payment>(this.listQuery("Payment", where));
+	}
+
+	async createPayment(payment: Partial<Payment>): Promise<Payment> {
+		const response = await this.request<{ Payment: Payment }>(
+			"POST",
+			"/payment",
+			payment,
+		);
+		return response.Payment;
+	}
+
+	// ============================================
+	// Deposit Methods
+	// ============================================
+
+	async getDeposit(id: string): Promise<Deposit> {
+		const response = await this.request<{ Deposit: Deposit }>(
+			"GET",
+			`/deposit/${id}`,
+		);
+		return response.Deposit;
+	}
+
+	async getDeposits(
+		where?: string | QueryBuilder<Deposit>,
+	): Promise<Deposit[]> {
+		return this.queryAll<Deposit>(this.listQuery("Deposit", where));
+	}
+
+	async createDeposit(deposit: Partial<Deposit>): Promise<Deposit> {
+		const response = await this.request<{ Deposit: Deposit }>(
+			"POST",
+			"/deposit",
+			deposit,
+		);
+		return response.Deposit;
+	}
+
+	async updateDeposit(
+		deposit: Deposit,
+		options: UpdateOptions = {},
+	): Promise<Deposit> {
+		const response = await this.request<{ Deposit: Deposit }>(
+			"POST",
+			"/deposit",
+			this.updateBody(deposit, options),
+		);
+		return response.Deposit;
+	}
+
+	async deleteDeposit(id: string, syncToken: string): Promise<void> {
+		await this.request("POST", "/deposit?operation=delete", {
+			Id: id,
+			SyncToken: syncToken,
+		});
+	}
+
+	/**
+	 * Deposit received payments (currently in Undeposited Funds) into a bank
+	 * account, one linked line per payment.
+	 */
+	async depositPayments(
+		paymentIds: string[],
+		depositToAccountId: string,
+		overrides: Partial<Deposit> = {},
+	): Promise<Deposit> {
+		if (paymentIds.length === 0) {
+			throw new QuickBooksError(
+				"depositPayments requires at least one payment id",
+				QB_ERROR_CODES.INVALID_CONFIG,
+			);
+		}
+
+		const payments = await this.getPayments(
+			createQuery("Payment").whereIn("Id", paymentIds),
+		);
+		const byId = new Map(payments.map((p) => [p.Id, p]));
+
+		const missing = paymentIds.filter((id) => !byId.has(id));
+		if (missing.length > 0) {
+			throw new ValidationError(
+				`Payments not found: ${missing.join(", ")}`,
+				undefined,
+				{ missing },
+			);
+		}
+
+		return this.createDeposit({
+			DepositToAccountRef: { value: depositToAccountId },
+			Line: paymentIds.map((id) => ({
+				Amount: byId.get(id)?.TotalAmt,
+				LinkedTxn: [{ TxnId: id, TxnType: "Payment", TxnLineId: "0" }],
+			})),
+			...overrides,
+		});
+	}
+
+	// ============================================
+	// Transfer Methods
+	// ============================================
+
+	async getTransfer(id: string): Promise<Transfer> {
+		const response = await this.request<{ Transfer: Transfer }>(
+			"GET",
+			`/transfer/${id}`,
+		);
+		return response.Transfer;
+	}
+
+	async getTransfers(
+		where?: string | QueryBuilder<Transfer>,
+	): Promise<Transfer[]> {
+		return this.queryAll<Transfer>(this.listQuery("Transfer", where));
+	}
+
+	async createTransfer(transfer: Partial<Transfer>): Promise<Transfer> {
+		const response = await this.request<{ Transfer: Transfer }>(
+			"POST",
+			"/transfer",
+			transfer,
+		);
+		return response.Transfer;
+	}
+
+	async updateTransfer(
+		transfer: Transfer,
+		options: UpdateOptions = {},
+	): Promise<Transfer> {
+		const response = await this.request<{ Transfer: Transfer }>(
+			"POST",
+			"/transfer",
+			this.updateBody(transfer, options),
+		);
+		return response.Transfer;
+	}
+
+	async deleteTransfer(id: string, syncToken: string): Promise<void> {
+		await this.request("POST", "/transfer?operation=delete", {
+			Id: id,
+			SyncToken: syncToken,
+		});
+	}
+
+	// ============================================
+	// Account Methods
+	// ============================================
+
+	async getAccount(id: string): Promise<Account> {
+		const response = await this.request<{ Account: Account }>(
+			"GET",
+			`/account/${id}`,
+		);
+		return response.Account;
+	}
+
+	async getAccounts(
+		where?: string | QueryBuilder<Account>,
+	): Promise<Account[]> {
+		return this.queryAll<Account>(
+			this.listQuery("Account", where, LIST_DEFAULT_WHERE.Account),
+		);
+	}
+
+	// ============================================
+	// Vendor Methods
+	// ============================================
+
+	async getVendor(id: string): Promise<Vendor> {
+		const response = await this.request<{ Vendor: Vendor }>(
+			"GET",
+			`/vendor/${id}`,
 		);
 		return response.Vendor;
 	}
 
-	async updateVendor(vendor: Vendor): Promise<Vendor> {
+	async getVendors(where?: string | QueryBuilder<Vendor>): Promise<Vendor[]> {
+		return this.queryAll<Vendor>(this.listQuery("Vendor", where));
+	}
+
+	async createVendor(vendor: Partial<Vendor>): Promise<Vendor> {
 		const response = await this.request<{ Vendor: Vendor }>(
 			"POST",
 			"/vendor",
@@ -536,6 +1519,18 @@ export class QuickBooksClient {
 		return response.Vendor;
 	}
 
+	async updateVendor(
+		vendor: Vendor,
+		options: UpdateOptions = {},
+	): Promise<Vendor> {
+		const response = await this.request<{ Vendor: Vendor }>(
+			"POST",
+			"/vendor",
+			this.updateBody(vendor, options),
+		);
+		return response.Vendor;
+	}
+
 	// ============================================
 	// Bill Methods
 	// ============================================
@@ -545,11 +1540,8 @@ export class QuickBooksClient {
 		return response.Bill;
 	}
 
-	async getBills(where?: string): Promise<Bill[]> {
-		const sql = where
-			? `SELECT * FROM Bill WHERE ${where}`
-			: "SELECT * FROM Bill";
-		return this.queryAll<Bill>(sql);
+	async getBills(where?: string | QueryBuilder<Bill>): Promise<Bill[]> {
+		return this.queryAll<Bill>(this.listQuery("Bill", where));
 	}
 
 	async createBill(bill: Partial<Bill>): Promise<Bill> {
@@ -557,8 +1549,12 @@ export class QuickBooksClient {
 		return response.Bill;
 	}
 
-	async updateBill(bill: Bill): Promise<Bill> {
-		const response = await this.request<{ Bill: Bill }>("POST", "/bill", bill);
+	async updateBill(bill: Bill, options: UpdateOptions = {}): Promise<Bill> {
+		const response = await this.request<{ Bill: Bill }>(
+			"POST",
+			"/bill",
+			this.updateBody(bill, options),
+		);
 		return response.Bill;
 	}
 
@@ -569,6 +1565,153 @@ export class QuickBooksClient {
 		});
 	}
 
+	// ============================================
+	// Purchase Methods (cash, check and credit card expenses)
+	// ============================================
+
+	async getPurchase(id: string): Promise<Purchase> {
+		const response = await this.request<{ Purchase: Purchase }>(
+			"GET",
+			`/purchase/${id}`,
+		);
+		return response.Purchase;
+	}
+
+	async getPurchases(
+		where?: string | QueryBuilder<Purchase>,
+	): Promise<Purchase[]> {
+		return this.queryAll<Purchase>(this.listQuery("Purchase", where));
+	}
+
+	async createPurchase(purchase: Partial<Purchase>): Promise<Purchase> {
+		const response = await this.request<{ Purchase: Purchase }>(
+			"POST",
+			"/purchase",
+			purchase,
+		);
+		return response.Purchase;
+	}
+
+	async updatePurchase(
+		purchase: Purchase,
+		options: UpdateOptions = {},
+	): Promise<Purchase> {
+		const response = await this.request<{ Purchase: Purchase }>(
+			"POST",
+			"/purchase",
+			this.updateBody(purchase, options),
+		);
+		return response.Purchase;
+	}
+
+	async deletePurchase(id: string, syncToken: string): Promise<void> {
+		await this.request("POST", "/purchase?operation=delete", {
+			Id: id,
+			SyncToken: syncToken,
+		});
+	}
+
+	// ============================================
+	// PurchaseOrder Methods
+	// ============================================
+
+	async getPurchaseOrder(id: string): Promise<PurchaseOrder> {
+		const response = await this.request<{ PurchaseOrder: PurchaseOrder }>(
+			"GET",
+			`/purchaseorder/${id}`,
+		);
+		return response.PurchaseOrder;
+	}
+
+	async getPurchaseOrders(
+		where?: string | QueryBuilder<PurchaseOrder>,
+	): Promise<PurchaseOrder[]> {
+		return this.queryAll<PurchaseOrder>(this.listQuery("PurchaseOrder", where));
+	}
+
+	async createPurchaseOrder(
+		purchaseOrder: Partial<PurchaseOrder>,
+	): Promise<PurchaseOrder> {
+		const response = await this.request<{ PurchaseOrder: PurchaseOrder }>(
+			"POST",
+			"/purchaseorder",
+			purchaseOrder,
+		);
+		return response.PurchaseOrder;
+	}
+
+	async updatePurchaseOrder(
+		purchaseOrder: PurchaseOrder,
+		options: UpdateOptions = {},
+	): Promise<PurchaseOrder> {
+		const response = await this.request<{ PurchaseOrder: PurchaseOrder }>(
+			"POST",
+			"/purchaseorder",
+			this.updateBody(purchaseOrder, options),
+		);
+		return response.PurchaseOrder;
+	}
+
+	async deletePurchaseOrder(id: string, syncToken: string): Promise<void> {
+		await this.request("POST", "/purchaseorder?operation=delete", {
+			Id: id,
+			SyncToken: syncToken,
+		});
+	}
+
+	async sendPurchaseOrder(id: string, email?: string): Promise<PurchaseOrder> {
+		return this.sendTransaction<PurchaseOrder>("PurchaseOrder", id, email);
+	}
+
+	async getPurchaseOrderPdf(id: string): Promise<Buffer> {
+		return this.getTransactionPdf("PurchaseOrder", id);
+	}
+
+	/**
+	 * Create a Bill from an open purchase order. Each line is copied with a
+	 * LinkedTxn back to its PO line, which lets QBO close the PO.
+	 */
+	async convertPurchaseOrderToBill(
+		purchaseOrder: PurchaseOrder | string,
+		overrides: Partial<Bill> = {},
+	): Promise<Bill> {
+		const source =
+			typeof purchaseOrder === "string"
+				? await this.getPurchaseOrder(purchaseOrder)
+				: purchaseOrder;
+
+		if (!source.Id) {
+			throw new QuickBooksError(
+				"Purchase order must be saved before converting to a bill",
+				QB_ERROR_CODES.INVALID_CONFIG,
+			);
+		}
+		if (source.POStatus === "Closed") {
+			throw new QuickBooksError(
+				`Purchase order ${source.Id} is closed and cannot be billed`,
+				QB_ERROR_CODES.INVALID_CONFIG,
+			);
+		}
+
+		const poId = source.Id;
+		const bill: Partial<Bill> = {
+			VendorRef: source.VendorRef,
+			APAccountRef: source.APAccountRef,
+			CurrencyRef: source.CurrencyRef,
+			DepartmentRef: source.DepartmentRef,
+			TxnTaxDetail: source.TxnTaxDetail,
+			Line: source.Line?.map(({ Id: lineId, LineNum: _lineNum, ...line }) => ({
+				...line,
+				LinkedTxn: [
+					{ TxnId: poId, TxnType: "PurchaseOrder", TxnLineId: lineId },
+				],
+			})),
+			...overrides,
+		};
+
+		return this.createBill(bill);
+	}
+
 	// ============================================
 	// BillPayment Methods
 	// ============================================
@@ -581,11 +1724,10 @@ export class QuickBooksClient {
 		return response.BillPayment;
 	}
 
-	async getBillPayments(where?: string): Promise<BillPayment[]> {
-		const sql = where
-			? `SELECT * FROM BillPayment WHERE ${where}`
-			: "SELECT * FROM BillPayment";
-		return this.queryAll<BillPayment>(sql);
+	async getBillPayments(
+		where?: string | QueryBuilder<BillPayment>,
+	): Promise<BillPayment[]> {
+		return this.queryAll<BillPayment>(this.listQuery("BillPayment", where));
 	}
 
 	async createBillPayment(
@@ -599,11 +1741,14 @@ export class QuickBooksClient {
 		return response.BillPayment;
 	}
 
-	async updateBillPayment(billPayment: BillPayment): Promise<BillPayment> {
+	async updateBillPayment(
+		billPayment: BillPayment,
+		options: UpdateOptions = {},
+	): Promise<BillPayment> {
 		const response = await this.request<{ BillPayment: BillPayment }>(
 			"POST",
 			"/billpayment",
-			billPayment,
+			this.updateBody(billPayment, options),
 		);
 		return response.BillPayment;
 	}
@@ -627,11 +1772,10 @@ export class QuickBooksClient {
 		return response.CreditMemo;
 	}
 
-	async getCreditMemos(where?: string): Promise<CreditMemo[]> {
-		const sql = where
-			? `SELECT * FROM CreditMemo WHERE ${where}`
-			: "SELECT * FROM CreditMemo";
-		return this.queryAll<CreditMemo>(sql);
+	async getCreditMemos(
+		where?: string | QueryBuilder<CreditMemo>,
+	): Promise<CreditMemo[]> {
+		return this.queryAll<CreditMemo>(this.listQuery("CreditMemo", where));
 	}
 
 	async createCreditMemo(creditMemo: Partial<CreditMemo>): Promise<CreditMemo> {
@@ -643,11 +1787,14 @@ export class QuickBooksClient {
 		return response.CreditMemo;
 	}
 
-	async updateCreditMemo(creditMemo: CreditMemo): Promise<CreditMemo> {
+	async updateCreditMemo(
+		creditMemo: CreditMemo,
+		options: UpdateOptions = {},
+	): Promise<CreditMemo> {
 		const response = await this.request<{ CreditMemo: CreditMemo }>(
 			"POST",
 			"/creditmemo",
-			creditMemo,
+			this.updateBody(creditMemo, options),
 		);
 		return response.CreditMemo;
 	}
@@ -659,6 +1806,14 @@ export class QuickBooksClient {
 		});
 	}
 
+	async sendCreditMemo(id: string, email?: string): Promise<CreditMemo> {
+		return this.sendTransaction<CreditMemo>("CreditMemo", id, email);
+	}
+
+	async getCreditMemoPdf(id: string): Promise<Buffer> {
+		return this.getTransactionPdf("CreditMemo", id);
+	}
+
 	// ============================================
 	// VendorCredit Methods (supplier-side credit notes)
 	// ============================================
@@ -671,102 +1826,466 @@ export class QuickBooksClient {
 		return response.VendorCredit;
 	}
 
-	async getVendorCredits(where?: string): Promise<VendorCredit[]> {
-		const sql = where
-			? `SELECT * FROM VendorCredit WHERE ${where}`
-			: "SELECT * FROM VendorCredit";
-		return this.queryAll<VendorCredit>(sql);
+	async getVendorCredits(
+		where?: string | QueryBuilder<VendorCredit>,
+	): Promise<VendorCredit[]> {
+		return this.queryAll<VendorCredit>(this.listQuery("VendorCredit", where));
+	}
+
+	async createVendorCredit(
+		vendorCredit: Partial<VendorCredit>,
+	): Promise<VendorCredit> {
+		const response = await this.request<{ VendorCredit: VendorCredit }>(
+			"POST",
+			"/vendorcredit",
+			vendorCredit,
+		);
+		return response.VendorCredit;
+	}
+
+	async updateVendorCredit(
+		vendorCredit: VendorCredit,
+		options: UpdateOptions = {},
+	): Promise<VendorCredit> {
+		const response = await this.request<{ VendorCredit: VendorCredit }>(
+			"POST",
+			"/vendorcredit",
+			this.updateBody(vendorCredit, options),
+		);
+		return response.VendorCredit;
+	}
+
+	async deleteVendorCredit(id: string, syncToken: string): Promise<void> {
+		await this.request("POST", "/vendorcredit?operation=delete", {
+			Id: id,
+			SyncToken: syncToken,
+		});
+	}
+
+	// ============================================
+	// JournalEntry Methods
+	// ============================================
+
+	async getJournalEntry(id: string): Promise<JournalEntry> {
+		const response = await this.request<{ JournalEntry: JournalEntry }>(
+			"GET",
+			`/journalentry/${id}`,
+		);
+		return response.JournalEntry;
+	}
+
+	async getJournalEntries(
+		where?: string | QueryBuilder<JournalEntry>,
+	): Promise<JournalEntry[]> {
+		return this.queryAll<JournalEntry>(this.listQuery("JournalEntry", where));
+	}
+
+	async createJournalEntry(
+		journalEntry: Partial<JournalEntry>,
+	): Promise<JournalEntry> {
+		this.validateJournalEntry(journalEntry);
+		const response = await this.request<{ JournalEntry: JournalEntry }>(
+			"POST",
+			"/journalentry",
+			journalEntry,
+		);
+		return response.JournalEntry;
+	}
+
+	async updateJournalEntry(
+		journalEntry: JournalEntry,
+		options: UpdateOptions = {},
+	): Promise<JournalEntry> {
+		// A sparse update that leaves Line alone keeps the existing balanced lines
+		if (!options.sparse || journalEntry.Line) {
+			this.validateJournalEntry(journalEntry);
+		}
+		const response = await this.request<{ JournalEntry: JournalEntry }>(
+			"POST",
+			"/journalentry",
+			this.updateBody(journalEntry, options),
+		);
+		return response.JournalEntry;
+	}
+
+	async deleteJournalEntry(id: string, syncToken: string): Promise<void> {
+		await this.request("POST", "/journalentry?operation=delete", {
+			Id: id,
+			SyncToken: syncToken,
+		});
+	}
+
+	/**
+	 * Check a journal entry locally before sending: every posting line needs
+	 * an account and a posting type, and debits must equal credits to the cent.
+	 */
+	private validateJournalEntry(journalEntry: Partial<JournalEntry>): void {
+		const lines = journalEntry.Line ?? [];
+		let debitCents = 0;
+		let creditCents = 0;
+		let postingLines = 0;
+
+		lines.forEach((line, index) => {
+			if (line.DetailType === "DescriptionOnly") return;
+
+			const label = `Journal entry line ${index + 1}`;
+			const detail = line.JournalEntryLineDetail;
+
+			if (!detail?.AccountRef?.value) {
+				throw new ValidationError(
+					`${label} is missing JournalEntryLineDetail.AccountRef`,
+					undefined,
+					{ line },
+				);
+			}
+			if (detail.PostingType !== "Debit" && detail.PostingType !== "Credit") {
+				throw new ValidationError(
+					`${label} must have PostingType "Debit" or "Credit"`,
+					undefined,
+					{ line },
+				);
+			}
+
+			const amount = line.Amount;
+			if (
+				typeof amount !== "number" ||
+				!Number.isFinite(amount) ||
+				amount < 0
+			) {
+				throw new ValidationError(
+					`${label} must have a non-negative Amount`,
+					undefined,
+					{ line },
+				);
+			}
+
+			const cents = Math.round(amount * 100);
+			if (detail.PostingType === "Debit") {
+				debitCents += cents;
+			} else {
+				creditCents += cents;
+			}
+			postingLines++;
+		});
+
+		if (postingLines === 0) {
+			throw new ValidationError(
+				"Journal entry must have at least one posting line",
+			);
+		}
+
+		if (debitCents !== creditCents) {
+			const debits = (debitCents / 100).toFixed(2);
+			const credits = (creditCents / 100).toFixed(2);
+			const difference = (Math.abs(debitCents - creditCents) / 100).toFixed(2);
+			throw new ValidationError(
+				`Journal entry is unbalanced: debits ${debits} do not equal credits ${credits} (difference ${difference})`,
+				undefined,
+				{ debits: debitCents / 100, credits: creditCents / 100 },
+			);
+		}
+	}
+
+	// ============================================
+	// TaxCode Methods (read-only in QBO API)
+	// ============================================
+
+	async getTaxCode(id: string): Promise<TaxCode> {
+		const response = await this.request<{ TaxCode: TaxCode }>(
+			"GET",
+			`/taxcode/${id}`,
+		);
+		return response.TaxCode;
+	}
+
+	async getTaxCodes(
+		where?: string | QueryBuilder<TaxCode>,
+	): Promise<TaxCode[]> {
+		return this.queryAll<TaxCode>(this.listQuery("TaxCode", where));
+	}
+
+	// ============================================
+	// TaxRate Methods (read-only in QBO API)
+	// ============================================
+
+	async getTaxRate(id: string): Promise<TaxRate> {
+		const response = await this.request<{ TaxRate: TaxRate }>(
+			"GET",
+			`/taxrate/${id}`,
+		);
+		return response.TaxRate;
+	}
+
+	async getTaxRates(
+		where?: string | QueryBuilder<TaxRate>,
+	): Promise<TaxRate[]> {
+		return this.queryAll<TaxRate>(this.listQuery("TaxRate", where));
+	}
+
+	// ============================================
+	// Item Methods
+	// ============================================
+
+	async getItem(id: string): Promise<Item> {
+		const response = await this.request<{ Item: Item }>("GET", `/item/${id}`);
+		return response.Item;
+	}
+
+	async getItems(where?: string | QueryBuilder<Item>): Promise<Item[]> {
+		return this.queryAll<Item>(
+			this.listQuery("Item", where, LIST_DEFAULT_WHERE.Item),
+		);
+	}
+
+	async createItem(item: Partial<Item>): Promise<Item> {
+		const response = await this.request<{ Item: Item }>("POST", "/item", item);
+		return response.Item;
+	}
+
+	async updateItem(item: Item, options: UpdateOptions = {}): Promise<Item> {
+		const response = await this.request<{ Item: Item }>(
+			"POST",
+			"/item",
+			this.updateBody(item, options),
+		);
+		return response.Item;
+	}
+
+	// ============================================
+	// Reference Data Methods (Class, Department, Term, PaymentMethod)
+	// Served from the TTL cache when referenceDataCacheTtlMs is set
+	// ============================================
+
+	async getClass(id: string): Promise<Class> {
+		return this.getReference<Class>("Class", id);
+	}
+
+	async getClasses(where?: string | QueryBuilder<Class>): Promise<Class[]> {
+		return this.listReferences<Class>("Class", where);
+	}
+
+	async findClassByName(name: string): Promise<Class | undefined> {
+		return this.findReferenceByName<Class>("Class", name);
+	}
+
+	async createClass(classRecord: Partial<Class>): Promise<Class> {
+		const response = await this.request<{ Class: Class }>(
+			"POST",
+			"/class",
+			classRecord,
+		);
+		this.referenceCache?.delete("Class");
+		return response.Class;
+	}
+
+	async updateClass(
+		classRecord: Class,
+		options: UpdateOptions = {},
+	): Promise<Class> {
+		const response = await this.request<{ Class: Class }>(
+			"POST",
+			"/class",
+			this.updateBody(classRecord, options),
+		);
+		this.referenceCache?.delete("Class");
+		return response.Class;
+	}
+
+	async getDepartment(id: string): Promise<Department> {
+		return this.getReference<Department>("Department", id);
+	}
+
+	async getDepartments(
+		where?: string | QueryBuilder<Department>,
+	): Promise<Department[]> {
+		return this.listReferences<Department>("Department", where);
+	}
+
+	async findDepartmentByName(name: string): Promise<Department | undefined> {
+		return this.findReferenceByName<Department>("Department", name);
 	}
 
-	async createVendorCredit(
-		vendorCredit: Partial<VendorCredit>,
-	): Promise<VendorCredit> {
-		const response = await this.request<{ VendorCredit: VendorCredit }>(
+	async createDepartment(department: Partial<Department>): Promise<Department> {
+		const response = await this.request<{ Department: Department }>(
 			"POST",
-			"/vendorcredit",
-			vendorCredit,
+			"/department",
+			department,
 		);
-		return response.VendorCredit;
+		this.referenceCache?.delete("Department");
+		return response.Department;
 	}
 
-	async updateVendorCredit(vendorCredit: VendorCredit): Promise<VendorCredit> {
-		const response = await this.request<{ VendorCredit: VendorCredit }>(
+	async updateDepartment(
+		department: Department,
+		options: UpdateOptions = {},
+	): Promise<Department> {
+		const response = await this.request<{ Department: Department }>(
 			"POST",
-			"/vendorcredit",
-			vendorCredit,
+			"/department",
+			this.updateBody(department, options),
 		);
-		return response.VendorCredit;
+		this.referenceCache?.delete("Department");
+		return response.Department;
 	}
 
-	async deleteVendorCredit(id: string, syncToken: string): Promise<void> {
-		await this.request("POST", "/vendorcredit?operation=delete", {
-			Id: id,
-			SyncToken: syncToken,
-		});
+	async getTerm(id: string): Promise<Term> {
+		return this.getReference<Term>("Term", id);
 	}
 
-	// ============================================
-	// TaxCode Methods (read-only in QBO API)
-	// ============================================
+	async getTerms(where?: string | QueryBuilder<Term>): Promise<Term[]> {
+		return this.listReferences<Term>("Term", where);
+	}
 
-	async getTaxCode(id: string): Promise<TaxCode> {
-		const response = await this.request<{ TaxCode: TaxCode }>(
-			"GET",
-			`/taxcode/${id}`,
+	async findTermByName(name: string): Promise<Term | undefined> {
+		return this.findReferenceByName<Term>("Term", name);
+	}
+
+	async createTerm(term: Partial<Term>): Promise<Term> {
+		const response = await this.request<{ Term: Term }>("POST", "/term", term);
+		this.referenceCache?.delete("Term");
+		return response.Term;
+	}
+
+	async updateTerm(term: Term, options: UpdateOptions = {}): Promise<Term> {
+		const response = await this.request<{ Term: Term }>(
+			"POST",
+			"/term",
+			this.updateBody(term, options),
 		);
-		return response.TaxCode;
+		this.referenceCache?.delete("Term");
+		return response.Term;
 	}
 
-	async getTaxCodes(where?: string): Promise<TaxCode[]> {
-		const sql = where
-			? `SELECT * FROM TaxCode WHERE ${where}`
-			: "SELECT * FROM TaxCode";
-		return this.queryAll<TaxCode>(sql);
+	async getPaymentMethod(id: string): Promise<PaymentMethod> {
+		return this.getReference<PaymentMethod>("PaymentMethod", id);
 	}
 
-	// ============================================
-	// TaxRate Methods (read-only in QBO API)
-	// ============================================
+	async getPaymentMethods(
+		where?: string | QueryBuilder<PaymentMethod>,
+	): Promise<PaymentMethod[]> {
+		return this.listReferences<PaymentMethod>("PaymentMethod", where);
+	}
 
-	async getTaxRate(id: string): Promise<TaxRate> {
-		const response = await this.request<{ TaxRate: TaxRate }>(
-			"GET",
-			`/taxrate/${id}`,
+	async findPaymentMethodByName(
+		name: string,
+	): Promise<PaymentMethod | undefined> {
+		return this.findReferenceByName<PaymentMethod>("PaymentMethod", name);
+	}
+
+	async createPaymentMethod(
+		paymentMethod: Partial<PaymentMethod>,
+	): Promise<PaymentMethod> {
+		const response = await this.request<{ PaymentMethod: PaymentMethod }>(
+			"POST",
+			"/paymentmethod",
+			paymentMethod,
 		);
-		return response.TaxRate;
+		this.referenceCache?.delete("PaymentMethod");
+		return response.PaymentMethod;
 	}
 
-	async getTaxRates(where?: string): Promise<TaxRate[]> {
-		const sql = where
-			? `SELECT * FROM TaxRate WHERE ${where}`
-			: "SELECT * FROM TaxRate";
-		return this.queryAll<TaxRate>(sql);
+	async updatePaymentMethod(
+		paymentMethod: PaymentMethod,
+		options: UpdateOptions = {},
+	): Promise<PaymentMethod> {
+		const response = await this.request<{ PaymentMethod: PaymentMethod }>(
+			"POST",
+			"/paymentmethod",
+			this.updateBody(paymentMethod, options),
+		);
+		this.referenceCache?.delete("PaymentMethod");
+		return response.PaymentMethod;
 	}
 
-	// ============================================
-	// Item Methods
-	// ============================================
+	/**
+	 * Drop cached reference data, for one entity type or all of them
+	 */
+	clearReferenceCache(entity?: ReferenceEntityName): void {
+		if (entity) {
+			this.referenceCache?.delete(entity);
+		} else {
+			this.referenceCache?.clear();
+		}
+	}
 
-	async getItem(id: string): Promise<Item> {
-		const response = await this.request<{ Item: Item }>("GET", `/item/${id}`);
-		return response.Item;
+	/**
+	 * Load every record of a reference entity, active and inactive. The
+	 * pending load itself is cached so concurrent lookups share one request;
+	 * it runs without any caller's signal, and each caller stops waiting
+	 * when its own signal aborts. Each caller gets its own copy, so changes
+	 * to it never reach the cache.
+	 */
+	private async loadReferenceList<T>(
+		entity: ReferenceEntityName,
+	): Promise<T[]> {
+		let load = this.referenceCache?.get(entity) as Promise<T[]> | undefined;
+		if (!load) {
+			load = this.detached().queryAll<T>(
+				`SELECT * FROM ${entity} WHERE Active IN (true, false)`,
+			);
+			if (this.referenceCache) {
+				this.referenceCache.set(entity, load);
+				load.catch(() => this.referenceCache?.delete(entity));
+			}
+		}
+
+		const signal = this.requestSignal();
+		try {
+			return structuredClone(await abortable(load, signal));
+		} catch (error) {
+			throw signal?.aborted ? abortToError(signal.reason) : error;
+		}
 	}
 
-	async getItems(where?: string): Promise<Item[]> {
-		const sql = where
-			? `SELECT * FROM Item WHERE ${where}`
-			: "SELECT * FROM Item WHERE Active = true";
-		return this.queryAll<Item>(sql);
+	private async getReference<T extends BaseEntity>(
+		entity: ReferenceEntityName,
+		id: string,
+	): Promise<T> {
+		if (this.referenceCache) {
+			const records = await this.loadReferenceList<T>(entity);
+			const found = records.find((r) => r.Id === id);
+			if (found) return found;
+		}
+
+		const response = await this.request<Record<string, T>>(
+			"GET",
+			`/${entity.toLowerCase()}/${id}`,
+		);
+		return response[entity];
 	}
 
-	async createItem(item: Partial<Item>): Promise<Item> {
-		const response = await this.request<{ Item: Item }>("POST", "/item", item);
-		return response.Item;
+	private async listReferences<T extends { Active?: boolean }>(
+		entity: ReferenceEntityName,
+		where?: string | QueryBuilder<T>,
+	): Promise<T[]> {
+		if (where || !this.referenceCache) {
+			return this.queryAll<T>(this.listQuery(entity, where));
+		}
+
+		// Match the API default of returning active records only
+		const records = await this.loadReferenceList<T>(entity);
+		return records.filter((r) => r.Active !== false);
 	}
 
-	async updateItem(item: Item): Promise<Item> {
-		const response = await this.request<{ Item: Item }>("POST", "/item", item);
-		return response.Item;
+	/**
+	 * Find a record by Name, active or inactive. Matching is
+	 * case-insensitive whether served from the cache or the API, as QBO
+	 * queries are.
+	 */
+	private async findReferenceByName<T extends { Name?: string }>(
+		entity: ReferenceEntityName,
+		name: string,
+	): Promise<T | undefined> {
+		if (this.referenceCache) {
+			const records = await this.loadReferenceList<T>(entity);
+			const wanted = name.toLowerCase();
+			return records.find((r) => r.Name?.toLowerCase() === wanted);
+		}
+
+		const [match] = await this.query<T>(
+			`SELECT * FROM ${entity} WHERE Name = ${escapeQueryValue(name)} AND Active IN (true, false)`,
+		);
+		return match;
 	}
 
 	// ============================================
@@ -781,11 +2300,110 @@ export class QuickBooksClient {
 		return response.Attachable;
 	}
 
-	async getAttachables(where?: string): Promise<Attachable[]> {
-		const sql = where
-			? `SELECT * FROM Attachable WHERE ${where}`
-			: "SELECT * FROM Attachable";
-		return this.queryAll<Attachable>(sql);
+	async getAttachables(
+		where?: string | QueryBuilder<Attachable>,
+	): Promise<Attachable[]> {
+		return this.queryAll<Attachable>(this.listQuery("Attachable", where));
+	}
+
+	/**
+	 * Download the file behind an attachable as a Node stream, or as a web
+	 * ReadableStream with `{ as: "web" }`. TempDownloadUri links expire after
+	 * a few minutes, so a fresh one is always fetched first.
+	 */
+	async downloadAttachable(id: string): Promise<Readable>;
+	async downloadAttachable(
+		id: string,
+		options: { as: "web" },
+	): Promise<ReadableStream<Uint8Array>>;
+	async downloadAttachable(
+		id: string,
+		options: { as?: "node" | "web" } = {},
+	): Promise<Readable | ReadableStream<Uint8Array>> {
+		const attachable = await this.getAttachable(id);
+		const body = await this.fetchAttachableContent(attachable);
+
+		if (options.as === "web") {
+			return body;
+		}
+		return Readable.fromWeb(body as NodeReadableStream);
+	}
+
+	/**
+	 * Download every file attached to an entity, e.g. all receipts on a Bill.
+	 * Files are fetched one at a time as the generator is advanced, so each
+	 * stream should be consumed before moving on to the next.
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const { attachable, stream } of qb.downloadAttachablesFor("Bill", "42")) {
+	 *   await pipeline(stream, createWriteStream(attachable.FileName!));
+	 * }
+	 * ```
+	 */
+	async *downloadAttachablesFor(
+		entityType: string,
+		entityId: string,
+	): AsyncGenerator<AttachableDownload> {
+		const attachables = await this.getAttachables(
+			`AttachableRef.EntityRef.Type = ${escapeQueryValue(entityType.toLowerCase())} AND AttachableRef.EntityRef.value = ${escapeQueryValue(entityId)}`,
+		);
+
+		for (const summary of attachables) {
+			// Note-only attachables carry no file
+			if (!summary.Id || !summary.FileName) continue;
+
+			const attachable = await this.getAttachable(summary.Id);
+			const body = await this.fetchAttachableContent(attachable);
+			yield {
+				attachable,
+				stream: Readable.fromWeb(body as NodeReadableStream),
+			};
+		}
+	}
+
+	/**
+	 * Fetch the bytes behind a TempDownloadUri. The link is pre-signed, so
+	 * no Authorization header is sent and the API rate limit does not apply.
+	 */
+	private async fetchAttachableContent(
+		attachable: Attachable,
+	): Promise<ReadableStream<Uint8Array>> {
+		if (!attachable.TempDownloadUri) {
+			throw new QuickBooksError(
+				`Attachable ${attachable.Id} has no file to download`,
+				QB_ERROR_CODES.API_ERROR,
+				404,
+			);
+		}
+
+		this.log("debug", `GET attachable ${attachable.Id} content`);
+
+		const signal = this.requestSignal();
+		let response: Response;
+		try {
+			response = await abortable(
+				this.transport(attachable.TempDownloadUri, {
+					method: "GET",
+					signal,
+				}),
+				signal,
+			);
+		} catch (error) {
+			throw signal?.aborted
+				? abortToError(signal.reason)
+				: handleQuickBooksError(error);
+		}
+
+		if (!response.ok || !response.body) {
+			throw new QuickBooksError(
+				`Failed to download attachable ${attachable.Id}: ${response.status} ${response.statusText}`,
+				QB_ERROR_CODES.API_ERROR,
+				response.status,
+			);
+		}
+
+		return response.body as ReadableStream<Uint8Array>;
 	}
 
 	/**
@@ -798,51 +2416,59 @@ export class QuickBooksClient {
 		contentType: string,
 		attachTo?: { entityType: string; entityId: string },
 	): Promise<Attachable> {
-		await this.checkRateLimit();
+		const signal = this.requestSignal();
+		let release: (() => Promise<void>) | undefined;
 
-		const tokens = await this.getValidTokens();
-		const env = this.config.environment || "production";
-		const baseUrl = API_BASE[env];
-		const url = this.appendMinorVersion(
-			`${baseUrl}/v3/company/${tokens.realm_id}/upload`,
-		);
+		try {
+			const tokens = await abortable(this.getValidTokens(), signal);
+			release = await this.checkRateLimit(tokens.realm_id, "request", signal);
 
-		const metadata: Partial<Attachable> = {
-			FileName: fileName,
-			ContentType: contentType,
-		};
+			const env = this.config.environment || "production";
+			const baseUrl = API_BASE[env];
+			const url = this.appendMinorVersion(
+				`${baseUrl}/v3/company/${tokens.realm_id}/upload`,
+			);
+
+			const metadata: Partial<Attachable> = {
+				FileName: fileName,
+				ContentType: contentType,
+			};
 
-		if (attachTo) {
-			metadata.AttachableRef = [
-				{
-					EntityRef: {
-						value: attachTo.entityId,
-						name: attachTo.entityType,
+			if (attachTo) {
+				metadata.AttachableRef = [
+					{
+						EntityRef: {
+							type: attachTo.entityType,
+							value: attachTo.entityId,
+							name: attachTo.entityType,
+						},
 					},
-				},
-			];
-		}
+				];
+			}
 
-		// Build multipart form
-		const formData = new FormData();
-		formData.append(
-			"file_metadata_0",
-			new Blob([JSON.stringify(metadata)], { type: "application/json" }),
-		);
+			// Build multipart form
+			const formData = new FormData();
+			formData.append(
+				"file_metadata_0",
+				new Blob([JSON.stringify(metadata)], { type: "application/json" }),
+			);
 
-		const fileBlob =
-			file instanceof Buffer ? new Blob([file], { type: contentType }) : file;
-		formData.append("file_content_0", fileBlob, fileName);
+			const fileBlob =
+				file instanceof Buffer ? new Blob([file], { type: contentType }) : file;
+			formData.append("file_content_0", fileBlob, fileName);
 
-		try {
-			const response = await fetch(url, {
-				method: "POST",
-				headers: {
-					Authorization: `Bearer ${tokens.access_token}`,
-					Accept: "application/json",
-				},
-				body: formData,
-			});
+			const response = await abortable(
+				this.transport(url, {
+					method: "POST",
+					headers: {
+						Authorization: `Bearer ${tokens.access_token}`,
+						Accept: "application/json",
+					},
+					body: formData,
+					signal,
+				}),
+				signal,
+			);
 
 			if (!response.ok) {
 				const errorData = (await response.json().catch(() => ({}))) as Record<
@@ -857,15 +2483,22 @@ export class QuickBooksClient {
 			};
 			return data.AttachableResponse[0].Attachable;
 		} catch (error) {
-			throw handleQuickBooksError(error);
+			throw signal?.aborted
+				? abortToError(signal.reason)
+				: handleQuickBooksError(error);
+		} finally {
+			await release?.();
 		}
 	}
 
-	async updateAttachable(attachable: Attachable): Promise<Attachable> {
+	async updateAttachable(
+		attachable: Attachable,
+		options: UpdateOptions = {},
+	): Promise<Attachable> {
 		const response = await this.request<{ Attachable: Attachable }>(
 			"POST",
 			"/attachable",
-			attachable,
+			this.updateBody(attachable, options),
 		);
 		return response.Attachable;
 	}
@@ -877,6 +2510,132 @@ export class QuickBooksClient {
 		});
 	}
 
+	// ============================================
+	// Change Data Capture
+	// ============================================
+
+	/**
+	 * Fetch everything that changed since a point in time across several
+	 * entity types in a single request. QBO only looks back 30 days and
+	 * returns at most 1000 objects per entity type.
+	 *
+	 * @example
+	 * ```ts
+	 * const changes = await client.changeDataCapture(
+	 *   ["Invoice", "Customer"],
+	 *   new Date(Date.now() - 24 * 60 * 60 * 1000),
+	 * );
+	 * changes.Invoice.updated; // Invoice[]
+	 * changes.Customer.deleted; // DeletedEntity[]
+	 * ```
+	 */
+	async changeDataCapture<E extends keyof EntityMap>(
+		entities: E[],
+		changedSince: Date | string,
+	): Promise<ChangeDataCaptureResult<E>> {
+		if (entities.length === 0) {
+			throw new QuickBooksError(
+				"changeDataCapture requires at least one entity type",
+				QB_ERROR_CODES.INVALID_CONFIG,
+			);
+		}
+
+		const since = new Date(changedSince);
+		if (Number.isNaN(since.getTime())) {
+			throw new QuickBooksError(
+				`Invalid changedSince value: ${String(changedSince)}`,
+				QB_ERROR_CODES.INVALID_CONFIG,
+			);
+		}
+
+		const params = new URLSearchParams({
+			entities: entities.join(","),
+			changedSince: since.toISOString(),
+		});
+		const response = await this.request<CDCResponse>(
+			"GET",
+			`/cdc?${params.toString()}`,
+		);
+
+		const result = {} as ChangeDataCaptureResult<E>;
+		for (const entity of entities) {
+			result[entity] = { updated: [], deleted: [] };
+		}
+
+		for (const cdc of response.CDCResponse ?? []) {
+			for (const queryResponse of cdc.QueryResponse ?? []) {
+				for (const entity of entities) {
+					const rows = queryResponse[entity];
+					if (!Array.isArray(rows)) continue;
+
+					for (const row of rows as Array<Record<string, unknown>>) {
+						if (row.status === "Deleted") {
+							result[entity].deleted.push(row as unknown as DeletedEntity);
+						} else {
+							result[entity].updated.push(row as EntityMap[E]);
+						}
+					}
+				}
+			}
+		}
+
+		return result;
+	}
+
+	// ============================================
+	// Reports
+	// ============================================
+
+	/**
+	 * Run any report by name and parse the result.
+	 * Array parameters are sent comma-separated.
+	 */
+	async getReport(
+		name: ReportName,
+		params: ReportParams | AgedReportParams | GeneralLedgerParams = {},
+	): Promise<ParsedReport> {
+		const search = new URLSearchParams();
+		for (const [key, value] of Object.entries(params)) {
+			if (value == null) continue;
+			search.set(key, Array.isArray(value) ? value.join(",") : String(value));
+		}
+
+		const query = search.toString();
+		const raw = await this.request<ReportResponse>(
+			"GET",
+			`/reports/${name}${query ? `?${query}` : ""}`,
+		);
+		return parseReport(raw);
+	}
+
+	async getProfitAndLoss(params?: ReportParams): Promise<ParsedReport> {
+		return this.getReport("ProfitAndLoss", params);
+	}
+
+	async getBalanceSheet(params?: ReportParams): Promise<ParsedReport> {
+		return this.getReport("BalanceSheet", params);
+	}
+
+	async getAgedReceivables(params?: AgedReportParams): Promise<ParsedReport> {
+		return this.getReport("AgedReceivables", params);
+	}
+
+	async getAgedPayables(params?: AgedReportParams): Promise<ParsedReport> {
+		return this.getReport("AgedPayables", params);
+	}
+
+	async getTrialBalance(params?: ReportParams): Promise<ParsedReport> {
+		return this.getReport("TrialBalance", params);
+	}
+
+	async getGeneralLedger(params?: GeneralLedgerParams): Promise<ParsedReport> {
+		return this.getReport("GeneralLedger", params);
+	}
+
+	async getCustomerBalance(params?: ReportParams): Promise<ParsedReport> {
+		return this.getReport("CustomerBalance", params);
+	}
+
 	// ============================================
 	// Batch Operations
 	// ============================================
@@ -894,7 +2653,7 @@ export class QuickBooksClient {
 	 * ```
 	 */
 	async batch(items: BatchItemRequest[]): Promise<BatchResponse> {
-		if (items.length > 30) {
+		if (items.length > MAX_BATCH_ITEMS) {
 			throw new QuickBooksError(
 				"Batch operations are limited to 30 items per request",
 				QB_ERROR_CODES.INVALID_CONFIG,
@@ -908,6 +2667,219 @@ export class QuickBooksClient {
 		return response;
 	}
 
+	/**
+	 * Run any number of batch operations, split into 30-item requests that
+	 * each go through the rate limiter. Faults are reported per item rather
+	 * than thrown; if a whole request fails, every item in it is marked
+	 * failed with that error.
+	 *
+	 * @example
+	 * ```ts
+	 * const { successes, failures } = await client.batchAll(
+	 *   invoices.map((inv, i) => ({ bId: String(i), operation: "create", Invoice: inv })),
+	 *   { concurrency: 2 },
+	 * );
+	 * for (const { bId, error } of Object.values(failures)) {
+	 *   console.warn(bId, error.message);
+	 * }
+	 * ```
+	 */
+	async batchAll<T = unknown>(
+		items: BatchItemRequest[],
+		options: BatchOptions = {},
+	): Promise<BatchResult<T>> {
+		const seen = new Set<string>();
+		for (const item of items) {
+			if (seen.has(item.bId)) {
+				throw new QuickBooksError(
+					`Duplicate batch item bId: ${item.bId}`,
+					QB_ERROR_CODES.INVALID_CONFIG,
+				);
+			}
+			seen.add(item.bId);
+		}
+
+		const chunks: BatchItemRequest[][] = [];
+		for (let i = 0; i < items.length; i += MAX_BATCH_ITEMS) {
+			chunks.push(items.slice(i, i + MAX_BATCH_ITEMS));
+		}
+
+		const result: BatchResult<T> = { successes: {}, failures: {} };
+
+		const runChunk = async (chunk: BatchItemRequest[]): Promise<void> => {
+			let response: BatchResponse;
+			try {
+				response = await this.batch(chunk);
+			} catch (error) {
+				const failure = handleQuickBooksError(error);
+				for (const item of chunk) {
+					result.failures[item.bId] = { bId: item.bId, error: failure };
+				}
+				return;
+			}
+
+			const byId = new Map(
+				(response.BatchItemResponse ?? []).map((r) => [r.bId, r]),
+			);
+			for (const { bId } of chunk) {
+				const itemResponse = byId.get(bId);
+				if (!itemResponse) {
+					result.failures[bId] = {
+						bId,
+						error: new QuickBooksError(
+							`No response for batch item ${bId}`,
+							QB_ERROR_CODES.API_ERROR,
+						),
+					};
+				} else if (itemResponse.Fault) {
+					result.failures[bId] = {
+						bId,
+						error: faultToError(itemResponse.Fault),
+					};
+				} else {
+					const type =
+						Object.keys(itemResponse).find(
+							(key) => key !== "bId" && key !== "Fault",
+						) ?? "";
+					result.successes[bId] = {
+						bId,
+						type,
+						data: itemResponse[type] as T,
+					};
+				}
+			}
+		};
+
+		await runWithConcurrency(chunks, options.concurrency ?? 1, runChunk);
+
+		return result;
+	}
+
+	// ============================================
+	// Update Helpers
+	// ============================================
+
+	/**
+	 * Read-modify-write an entity. The latest version is fetched, passed to
+	 * `mutator`, and the result saved with the fetched SyncToken. If someone
+	 * else saves in between (StaleObjectError), the entity is re-fetched and
+	 * the mutator re-applied, up to `maxRetries` times.
+	 *
+	 * The mutator may run several times, so it should only derive the new
+	 * entity from the one it is given.
+	 *
+	 * @example
+	 * ```ts
+	 * const customer = await client.updateWith("Customer", "58", (c) => ({
+	 *   ...c,
+	 *   Notes: `${c.Notes ?? ""}\nCalled 2024-03-01`,
+	 * }));
+	 * ```
+	 */
+	async updateWith<E extends UpdatableEntityName>(
+		entityType: E,
+		id: string,
+		mutator: (current: EntityMap[E]) => EntityMap[E],
+		options: UpdateWithOptions = {},
+	): Promise<EntityMap[E]> {
+		const maxRetries = options.maxRetries ?? 3;
+		const update = this.entityUpdater(entityType);
+
+		for (let attempt = 0; ; attempt++) {
+			// Read straight from the API - cached reference data may be stale
+			const response = await this.request<Record<string, EntityMap[E]>>(
+				"GET",
+				`/${entityType.toLowerCase()}/${id}`,
+			);
+			const current = response[entityType];
+			const next = mutator(structuredClone(current));
+
+			try {
+				return await update({
+					...next,
+					Id: current.Id,
+					SyncToken: current.SyncToken,
+				});
+			} catch (error) {
+				if (!(error instanceof StaleObjectError) || attempt >= maxRetries) {
+					throw error;
+				}
+				this.log(
+					"warn",
+					`Stale ${entityType} ${id}, retrying update (attempt ${attempt + 1})`,
+				);
+			}
+		}
+	}
+
+	/**
+	 * Save only what changed between two versions of an entity, as a sparse
+	 * update, so fields this library does not model are never cleared.
+	 * Returns `original` without a request when nothing changed.
+	 *
+	 * @example
+	 * ```ts
+	 * const customer = await client.getCustomer("58");
+	 * const saved = await client.updateChanged("Customer", customer, {
+	 *   ...customer,
+	 *   BillAddr: { ...customer.BillAddr, City: "Leeds" },
+	 * });
+	 * ```
+	 */
+	async updateChanged<E extends UpdatableEntityName>(
+		entityType: E,
+		original: EntityMap[E],
+		modified: EntityMap[E],
+	): Promise<EntityMap[E]> {
+		const changes = diffEntity(original, modified);
+		if (!hasChanges(changes)) {
+			return original;
+		}
+		return this.entityUpdater(entityType)(changes as EntityMap[E], {
+			sparse: true,
+		});
+	}
+
+	/** The typed update method for an entity, so per-entity checks still run */
+	private entityUpdater<E extends UpdatableEntityName>(
+		entityType: E,
+	): (entity: EntityMap[E], options?: UpdateOptions) => Promise<EntityMap[E]> {
+		const updaters: {
+			[K in UpdatableEntityName]: (
+				entity: EntityMap[K],
+				options?: UpdateOptions,
+			) => Promise<EntityMap[K]>;
+		} = {
+			Attachable: (e, o) => this.updateAttachable(e, o),
+			Bill: (e, o) => this.updateBill(e, o),
+			BillPayment: (e, o) => this.updateBillPayment(e, o),
+			Class: (e, o) => this.updateClass(e, o),
+			CreditMemo: (e, o) => this.updateCreditMemo(e, o),
+			Customer: (e, o) => this.updateCustomer(e, o),
+			Department: (e, o) => this.updateDepartment(e, o),
+			Deposit: (e, o) => this.updateDeposit(e, o),
+			Employee: (e, o) => this.updateEmployee(e, o),
+			Estimate: (e, o) => this.updateEstimate(e, o),
+			Invoice: (e, o) => this.updateInvoice(e, o),
+			Item: (e, o) => this.updateItem(e, o),
+			JournalEntry: (e, o) => this.updateJournalEntry(e, o),
+			PaymentMethod: (e, o) => this.updatePaymentMethod(e, o),
+			Purchase: (e, o) => this.updatePurchase(e, o),
+			PurchaseOrder: (e, o) => this.updatePurchaseOrder(e, o),
+			RefundReceipt: (e, o) => this.updateRefundReceipt(e, o),
+			SalesReceipt: (e, o) => this.updateSalesReceipt(e, o),
+			Term: (e, o) => this.updateTerm(e, o),
+			TimeActivity: (e, o) => this.updateTimeActivity(e, o),
+			Transfer: (e, o) => this.updateTransfer(e, o),
+			Vendor: (e, o) => this.updateVendor(e, o),
+			VendorCredit: (e, o) => this.updateVendorCredit(e, o),
+		};
+		return updaters[entityType] as (
+			entity: EntityMap[E],
+			options?: UpdateOptions,
+		) => Promise<EntityMap[E]>;
+	}
+
 	// ============================================
 	// Utility Methods
 	// ============================================
@@ -916,7 +2888,15 @@ export class QuickBooksClient {
 	 * Get company info
 	 */
 	async getCompanyInfo(): Promise<CompanyInfo> {
-		const tokens = await this.getValidTokens();
+		const signal = this.requestSignal();
+		let tokens: QuickBooksTokens;
+		try {
+			tokens = await abortable(this.getValidTokens(), signal);
+		} catch (error) {
+			throw signal?.aborted
+				? abortToError(signal.reason)
+				: handleQuickBooksError(error);
+		}
 		const response = await this.request<{ CompanyInfo: CompanyInfo }>(
 			"GET",
 			`/companyinfo/${tokens.realm_id}`,
@@ -0,0 +1,74 @@
+/**
+ * Field-level entity diffs for sparse updates
+ */
+
+import type { BaseEntity } from "./types.js";
+
+/** Deep equality for JSON-like values; key order is ignored */
+function isEqual(a: unknown, b: unknown): boolean {
+	if (a === b) return true;
+	if (
+		a === null ||
+		b === null ||
+		typeof a !== "object" ||
+		typeof b !== "object"
+	) {
+		return false;
+	}
+
+	if (Array.isArray(a) || Array.isArray(b)) {
+		return (
+			Array.isArray(a) &&
+			Array.isArray(b) &&
+			a.length === b.length &&
+			a.every((item, i) => isEqual(item, b[i]))
+		);
+	}
+
+	const aRecord = a as Record<string, unknown>;
+	const bRecord = b as Record<string, unknown>;
+	const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+	for (const key of keys) {
+		if (!isEqual(aRecord[key], bRecord[key])) return false;
+	}
+	return true;
+}
+
+/**
+ * The fields of `modified` that differ from `original`, plus `Id` and
+ * `SyncToken` - the body for a sparse update.
+ *
+ * Nested objects such as BillAddr are sent whole when any field inside them
+ * changes, and arrays such as Line are sent whole because QBO replaces them.
+ * Fields deleted from `modified` are not included: a sparse update cannot
+ * clear a field by leaving it out.
+ *
+ * @example
+ * ```ts
+ * const changes = diffEntity(customer, { ...customer, BillAddr: { ...customer.BillAddr, City: "Leeds" } });
+ * // { Id, SyncToken, BillAddr: { ...entire address... } }
+ * ```
+ */
+export function diffEntity<T extends BaseEntity>(
+	original: T,
+	modified: T,
+): Partial<T> {
+	const changes: Record<string, unknown> = {
+		Id: original.Id,
+		SyncToken: original.SyncToken,
+	};
+
+	for (const [key, value] of Object.entries(modified)) {
+		if (key === "Id" || key === "SyncToken" || value === undefined) continue;
+		if (!isEqual((original as Record<string, unknown>)[key], value)) {
+			changes[key] = value;
+		}
+	}
+
+	return changes as Partial<T>;
+}
+
+/** True when `diffEntity` found nothing to send beyond Id and SyncToken */
+export function hasChanges<T extends BaseEntity>(diff: Partial<T>): boolean {
+	return Object.keys(diff).some((key) => key !== "Id" && key !== "SyncToken");
+}
@@ -2,6 +2,8 @@
  * QuickBooks Error Handling
  */
 
+import type { Invoice, TimeActivity } from "./types.js";
+
 /** Error codes for QuickBooks API errors */
 export const QB_ERROR_CODES = {
 	TOKEN_EXPIRED: "QB_TOKEN_EXPIRED",
@@ -11,26 +13,306 @@ export const QB_ERROR_CODES = {
 	API_ERROR: "QB_API_ERROR",
 	RATE_LIMIT: "QB_RATE_LIMIT",
 	NETWORK_ERROR: "QB_NETWORK_ERROR",
+	TIMEOUT: "QB_TIMEOUT",
+	ABORTED: "QB_ABORTED",
 	INVALID_CONFIG: "QB_INVALID_CONFIG",
+	INVALID_QUERY: "QB_INVALID_QUERY",
+	INVALID_WEBHOOK: "QB_INVALID_WEBHOOK",
+	VALIDATION_ERROR: "QB_VALIDATION_ERROR",
+	STALE_OBJECT: "QB_STALE_OBJECT",
+	DUPLICATE_NAME: "QB_DUPLICATE_NAME",
+	BUSINESS_RULE: "QB_BUSINESS_RULE",
 	TOKEN_STORE_ERROR: "QB_TOKEN_STORE_ERROR",
 } as const;
 
 export type QuickBooksErrorCode =
 	(typeof QB_ERROR_CODES)[keyof typeof QB_ERROR_CODES];
 
+/** A single entry of Fault.Error */
+export interface QuickBooksFaultError {
+	Message?: string;
+	Detail?: string;
+	code?: string;
+	/** Field the error refers to, when QBO reports one */
+	element?: string;
+}
+
+/** Fault body returned by QBO, either top-level or per batch item */
+export interface QuickBooksFault {
+	Error?: QuickBooksFaultError[];
+	/** e.g. "ValidationFault", "AuthenticationFault", "SystemFault" */
+	type?: string;
+}
+
 /** Custom error class for QuickBooks-related errors */
 export class QuickBooksError extends Error {
+	/** Fault.type from the response, e.g. "ValidationFault" */
+	faultType?: string;
+	/** Every entry from Fault.Error */
+	errors: QuickBooksFaultError[];
+	/** QBO error code of the first fault entry, e.g. "6240" */
+	faultCode?: string;
+	/** Detail of the first fault entry */
+	detail?: string;
+	/** Field the first fault entry refers to */
+	element?: string;
+
 	constructor(
 		message: string,
 		public code: QuickBooksErrorCode,
 		public status?: number,
 		public details?: unknown,
+		fault?: QuickBooksFault,
 	) {
 		super(message);
 		this.name = "QuickBooksError";
+		this.faultType = fault?.type;
+		this.errors = fault?.Error ?? [];
+
+		const [first] = this.errors;
+		this.faultCode = first?.code;
+		this.detail = first?.Detail;
+		this.element = first?.element;
+	}
+}
+
+/** A request rejected because of invalid or missing data */
+export class ValidationError extends QuickBooksError {
+	constructor(
+		message: string,
+		status?: number,
+		details?: unknown,
+		fault?: QuickBooksFault,
+	) {
+		super(message, QB_ERROR_CODES.VALIDATION_ERROR, status, details, fault);
+		this.name = "ValidationError";
+	}
+}
+
+/** The SyncToken sent was not the latest - re-read the entity and retry (5010) */
+export class StaleObjectError extends QuickBooksError {
+	constructor(
+		message: string,
+		status?: number,
+		details?: unknown,
+		fault?: QuickBooksFault,
+	) {
+		super(message, QB_ERROR_CODES.STALE_OBJECT, status, details, fault);
+		this.name = "StaleObjectError";
+	}
+}
+
+/** Another entity already uses this name (6240) */
+export class DuplicateNameError extends QuickBooksError {
+	constructor(
+		message: string,
+		status?: number,
+		details?: unknown,
+		fault?: QuickBooksFault,
+	) {
+		super(message, QB_ERROR_CODES.DUPLICATE_NAME, status, details, fault);
+		this.name = "DuplicateNameError";
 	}
 }
 
+/**
+ * Some time activities could not be marked HasBeenBilled. Carries the
+ * invoice that was created for them (if any) and which activities are still
+ * Billable, so they can be marked without invoicing the hours again.
+ */
+export class TimeBillingError extends QuickBooksError {
+	constructor(
+		cause: QuickBooksError,
+		public billed: TimeActivity[],
+		public unbilledIds: string[],
+		public invoice?: Invoice,
+	) {
+		super(
+			`${unbilledIds.length} time activities could not be marked billed (${unbilledIds.join(", ")}): ${cause.message}`,
+			cause.code,
+			cause.status,
+			cause.details,
+			{ type: cause.faultType, Error: cause.errors },
+		);
+		this.name = "TimeBillingError";
+		this.cause = cause;
+	}
+}
+
+/**
+ * Authentication (401) or permission (403) failure. Both use the
+ * UNAUTHORIZED code; check `forbidden` (or `status`) to tell them apart.
+ */
+export class AuthorizationError extends QuickBooksError {
+	constructor(
+		message: string,
+		status?: number,
+		details?: unknown,
+		fault?: QuickBooksFault,
+	) {
+		super(message, QB_ERROR_CODES.UNAUTHORIZED, status, details, fault);
+		this.name = "AuthorizationError";
+	}
+
+	/** True when the credentials were valid but lack permission (403) */
+	get forbidden(): boolean {
+		return this.status === 403;
+	}
+}
+
+/** A valid request that breaks an accounting rule, e.g. a closed period */
+export class BusinessRuleError extends QuickBooksError {
+	constructor(
+		message: string,
+		status?: number,
+		details?: unknown,
+		fault?: QuickBooksFault,
+	) {
+		super(message, QB_ERROR_CODES.BUSINESS_RULE, status, details, fault);
+		this.name = "BusinessRuleError";
+	}
+}
+
+/**
+ * A paginated read failed part-way. Carries the results fetched before the
+ * failure and the STARTPOSITION to resume from; `code`, `status` and the
+ * Fault fields are copied from the underlying error, which is the `cause`.
+ */
+export class PaginationError<T = unknown> extends QuickBooksError {
+	constructor(
+		cause: QuickBooksError,
+		public results: T[],
+		public resumeFrom: number,
+	) {
+		super(
+			`${cause.message} (after ${results.length} results; resume from position ${resumeFrom})`,
+			cause.code,
+			cause.status,
+			cause.details,
+			{ type: cause.faultType, Error: cause.errors },
+		);
+		this.name = "PaginationError";
+		this.cause = cause;
+	}
+}
+
+/**
+ * Read the Fault from a response body. Most endpoints use `Fault.Error`,
+ * but the API gateway answers auth failures with lowercase `fault.error`.
+ */
+function readFault(body: Record<string, unknown>): QuickBooksFault | undefined {
+	if (body.Fault && typeof body.Fault === "object") {
+		return body.Fault as QuickBooksFault;
+	}
+
+	const fault = body.fault as
+		| { error?: Array<Record<string, string>>; type?: string }
+		| undefined;
+	if (fault && typeof fault === "object") {
+		return {
+			type: fault.type,
+			Error: (fault.error ?? []).map((e) => ({
+				Message: e.message,
+				Detail: e.detail,
+				code: e.code,
+				element: e.element,
+			})),
+		};
+	}
+
+	return undefined;
+}
+
+/** Pick the error class that matches a Fault */
+function classifyFault(
+	fault: QuickBooksFault,
+	status: number,
+	details: unknown,
+): QuickBooksError {
+	const [first] = fault.Error ?? [];
+	const message =
+		first?.Detail || first?.Message || "QuickBooks returned a fault";
+	const codes = (fault.Error ?? []).map((e) => e.code);
+	const type = fault.type?.toLowerCase() ?? "";
+
+	if (codes.includes("5010")) {
+		return new StaleObjectError(message, status, details, fault);
+	}
+	if (codes.includes("6240")) {
+		return new DuplicateNameError(message, status, details, fault);
+	}
+	if (
+		status === 401 ||
+		status === 403 ||
+		type.startsWith("authentication") ||
+		type.startsWith("authorization")
+	) {
+		return new AuthorizationError(message, status, details, fault);
+	}
+	if (status === 429) {
+		return new QuickBooksError(
+			"QuickBooks API rate limit exceeded",
+			QB_ERROR_CODES.RATE_LIMIT,
+			429,
+			details,
+			fault,
+		);
+	}
+	// QBO reports business validation failures in the 6000 range
+	if (
+		type.startsWith("businessrule") ||
+		codes.some((code) => code?.length === 4 && code.startsWith("6"))
+	) {
+		return new BusinessRuleError(message, status, details, fault);
+	}
+	if (type === "validationfault") {
+		return new ValidationError(message, status, details, fault);
+	}
+
+	return new QuickBooksError(
+		message,
+		QB_ERROR_CODES.API_ERROR,
+		status,
+		details,
+		fault,
+	);
+}
+
+/** Build an error from a Fault that arrived without a failing HTTP status */
+export function faultToError(
+	fault: QuickBooksFault,
+	status = 400,
+): QuickBooksError {
+	return classifyFault(fault, status, fault);
+}
+
+/**
+ * Convert an AbortSignal reason into an error: TIMEOUT when a timeout
+ * fired, ABORTED when the caller cancelled
+ */
+export function abortToError(reason: unknown): QuickBooksError {
+	if (reason instanceof QuickBooksError) {
+		return reason;
+	}
+
+	const name = (reason as { name?: unknown } | null)?.name;
+	if (name === "TimeoutError") {
+		return new QuickBooksError(
+			"QuickBooks request timed out",
+			QB_ERROR_CODES.TIMEOUT,
+			undefined,
+			reason,
+		);
+	}
+
+	return new QuickBooksError(
+		"QuickBooks request was aborted",
+		QB_ERROR_CODES.ABORTED,
+		undefined,
+		reason,
+	);
+}
+
 /** Handle and normalize errors from QuickBooks API */
 export function handleQuickBooksError(error: unknown): QuickBooksError {
 	// Already a QuickBooksError
@@ -38,6 +320,14 @@ export function handleQuickBooksError(error: unknown): QuickBooksError {
 		return error;
 	}
 
+	// Handle cancellation (AbortSignal and AbortSignal.timeout)
+	if (
+		error instanceof Error &&
+		(error.name === "AbortError" || error.name === "TimeoutError")
+	) {
+		return abortToError(error);
+	}
+
 	// Handle fetch/network errors
 	if (error instanceof TypeError && error.message.includes("fetch")) {
 		return new QuickBooksError(
@@ -54,21 +344,26 @@ export function handleQuickBooksError(error: unknown): QuickBooksError {
 
 		// Check for status code
 		if (typeof err.status === "number") {
+			const fault = readFault(err);
+			if (fault?.Error?.length) {
+				return classifyFault(fault, err.status, error);
+			}
+
 			if (err.status === 401) {
-				return new QuickBooksError(
+				return new AuthorizationError(
 					"Unauthorized access to QuickBooks API",
-					QB_ERROR_CODES.UNAUTHORIZED,
 					401,
 					error,
+					fault,
 				);
 			}
 
 			if (err.status === 403) {
-				return new QuickBooksError(
+				return new AuthorizationError(
 					"Access forbidden - check API permissions",
-					QB_ERROR_CODES.UNAUTHORIZED,
 					403,
 					error,
+					fault,
 				);
 			}
 
@@ -95,6 +390,15 @@ export function handleQuickBooksError(error: unknown): QuickBooksError {
 				error,
 			);
 		}
+
+		if (typeof err.status === "number") {
+			return new QuickBooksError(
+				`QuickBooks API request failed with status ${err.status}`,
+				QB_ERROR_CODES.API_ERROR,
+				err.status,
+				error,
+			);
+		}
 	}
 
 	// Default error
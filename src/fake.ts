@@ -0,0 +1,1106 @@
+/**
+ * In-memory QuickBooks Online fake
+ *
+ * Emulates the QBO v3 API and Intuit OAuth endpoints so the real client can
+ * be exercised offline. Plug it in through the client's `fetch` option:
+ *
+ * @example
+ * ```ts
+ * const fake = new QuickBooksFake();
+ * const client = new QuickBooksClient({
+ *   clientId: "id",
+ *   clientSecret: "secret",
+ *   redirectUri: "http://localhost/callback",
+ *   fetch: fake.fetch,
+ *   tokenStore: fake.createTokenStore(),
+ * });
+ * ```
+ */
+
+import type { FetchFunction, QuickBooksTokens, TokenStore } from "./types.js";
+
+/** Entity names served by the fake, keyed by their lowercase URL segment */
+const ENTITY_NAMES = [
+	"Account",
+	"Attachable",
+	"Bill",
+	"BillPayment",
+	"Class",
+	"CreditMemo",
+	"Customer",
+	"Department",
+	"Deposit",
+	"Employee",
+	"Estimate",
+	"Invoice",
+	"Item",
+	"JournalEntry",
+	"Payment",
+	"PaymentMethod",
+	"Purchase",
+	"PurchaseOrder",
+	"RefundReceipt",
+	"SalesReceipt",
+	"TaxCode",
+	"TaxRate",
+	"Term",
+	"TimeActivity",
+	"Transfer",
+	"Vendor",
+	"VendorCredit",
+];
+
+/** Entities QBO documents the void operation for */
+const VOIDABLE_ENTITIES = new Set([
+	"BillPayment",
+	"Invoice",
+	"Payment",
+	"SalesReceipt",
+]);
+
+/** Host serving attachable file content behind TempDownloadUri links */
+const DOWNLOAD_HOST = "attachments.fake.intuit.com";
+
+/** Entities whose name field must be unique (QBO error 6240) */
+const UNIQUE_NAME_FIELDS: Record<string, string> = {
+	Account: "Name",
+	Class: "Name",
+	Customer: "DisplayName",
+	Department: "Name",
+	Item: "Name",
+	PaymentMethod: "Name",
+	Term: "Name",
+	Vendor: "DisplayName",
+};
+
+const ACCESS_TOKEN_TTL_SECONDS = 3600;
+const REFRESH_TOKEN_TTL_SECONDS = 100 * 24 * 3600;
+const MAX_QUERY_RESULTS = 1000;
+
+type EntityRecord = Record<string, unknown>;
+
+interface FaultError {
+	Message: string;
+	Detail?: string;
+	code: string;
+	element?: string;
+}
+
+/** Thrown internally to produce a Fault response */
+class FakeFault extends Error {
+	constructor(
+		public status: number,
+		public type: string,
+		public errors: FaultError[],
+	) {
+		super(errors[0]?.Message ?? type);
+	}
+
+	toBody(): Record<string, unknown> {
+		return {
+			Fault: { Error: this.errors, type: this.type },
+			time: new Date().toISOString(),
+		};
+	}
+}
+
+/** A queued response returned instead of handling the next API request */
+export interface FakeInjectedResponse {
+	status: number;
+	body?: unknown;
+	headers?: Record<string, string>;
+}
+
+/** Request recorded by the fake for assertions */
+export interface FakeRequestLog {
+	method: string;
+	url: string;
+	body?: unknown;
+}
+
+export interface QuickBooksFakeOptions {
+	realmId?: string;
+	companyName?: string;
+}
+
+// ============================================
+// Query language
+// ============================================
+
+type Token =
+	| { kind: "word"; value: string }
+	| { kind: "string"; value: string }
+	| { kind: "number"; value: number }
+	| { kind: "symbol"; value: string };
+
+interface Condition {
+	field: string;
+	operator: string;
+	values: Array<string | number | boolean>;
+}
+
+interface ParsedQuery {
+	entity: string;
+	fields: string[] | "*" | "count";
+	conditions: Condition[];
+	orderBy: Array<{ field: string; direction: "ASC" | "DESC" }>;
+	startPosition: number;
+	maxResults: number;
+}
+
+function queryError(detail: string): FakeFault {
+	return new FakeFault(400, "ValidationFault", [
+		{ Message: "Error parsing query", Detail: detail, code: "4000" },
+	]);
+}
+
+function tokenize(sql: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	while (i < sql.length) {
+		const ch = sql[i];
+
+		if (/\s/.test(ch)) {
+			i++;
+		} else if (ch === "'") {
+			let value = "";
+			i++;
+			while (i < sql.length && sql[i] !== "'") {
+				if (sql[i] === "\\" && i + 1 < sql.length) i++;
+				value += sql[i++];
+			}
+			if (i >= sql.length) throw queryError("Unterminated string literal");
+			i++;
+			tokens.push({ kind: "string", value });
+		} else if (/[<>=]/.test(ch)) {
+			const two = sql.slice(i, i + 2);
+			const op = two === "<=" || two === ">=" ? two : ch;
+			tokens.push({ kind: "symbol", value: op });
+			i += op.length;
+		} else if (/[(),*]/.test(ch)) {
+			tokens.push({ kind: "symbol", value: ch });
+			i++;
+		} else if (/[-\d]/.test(ch)) {
+			const match = /^-?\d+(\.\d+)?/.exec(sql.slice(i));
+			if (!match) throw queryError(`Unexpected character ${ch}`);
+			tokens.push({ kind: "number", value: Number(match[0]) });
+			i += match[0].length;
+		} else if (/[A-Za-z_]/.test(ch)) {
+			const match = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(sql.slice(i));
+			tokens.push({ kind: "word", value: match?.[0] ?? ch });
+			i += match?.[0].length ?? 1;
+		} else {
+			throw queryError(`Unexpected character ${ch}`);
+		}
+	}
+
+	return tokens;
+}
+
+function parseQuery(sql: string): ParsedQuery {
+	const tokens = tokenize(sql);
+	let pos = 0;
+
+	const peek = () => tokens[pos];
+	const isKeyword = (word: string) => {
+		const t = peek();
+		return t?.kind === "word" && t.value.toUpperCase() === word;
+	};
+	const expectKeyword = (word: string) => {
+		if (!isKeyword(word)) throw queryError(`Expected ${word}`);
+		pos++;
+	};
+	const expectSymbol = (symbol: string) => {
+		const t = peek();
+		if (t?.kind !== "symbol" || t.value !== symbol) {
+			throw queryError(`Expected ${symbol}`);
+		}
+		pos++;
+	};
+	const expectWord = (): string => {
+		const t = peek();
+		if (t?.kind !== "word") throw queryError("Expected identifier");
+		pos++;
+		return t.value;
+	};
+	const expectNumber = (): number => {
+		const t = peek();
+		if (t?.kind !== "number") throw queryError("Expected number");
+		pos++;
+		return t.value;
+	};
+	const readValue = (): string | number | boolean => {
+		const t = peek();
+		pos++;
+		if (t?.kind === "string" || t?.kind === "number") return t.value;
+		if (t?.kind === "word" && /^(true|false)$/i.test(t.value)) {
+			return t.value.toLowerCase() === "true";
+		}
+		throw queryError("Expected value");
+	};
+
+	expectKeyword("SELECT");
+
+	let fields: ParsedQuery["fields"];
+	if (peek()?.kind === "symbol" && peek()?.value === "*") {
+		pos++;
+		fields = "*";
+	} else if (isKeyword("COUNT")) {
+		pos++;
+		expectSymbol("(");
+		expectSymbol("*");
+		expectSymbol(")");
+		fields = "count";
+	} else {
+		fields = [expectWord()];
+		while (peek()?.kind === "symbol" && peek()?.value === ",") {
+			pos++;
+			fields.push(expectWord());
+		}
+	}
+
+	expectKeyword("FROM");
+	const entity = expectWord();
+
+	const conditions: Condition[] = [];
+	if (isKeyword("WHERE")) {
+		pos++;
+		do {
+			if (conditions.length > 0) pos++; // AND
+			const field = expectWord();
+			const t = peek();
+
+			if (isKeyword("IN")) {
+				pos++;
+				expectSymbol("(");
+				const values = [readValue()];
+				while (peek()?.kind === "symbol" && peek()?.value === ",") {
+					pos++;
+					values.push(readValue());
+				}
+				expectSymbol(")");
+				conditions.push({ field, operator: "IN", values });
+			} else if (isKeyword("LIKE")) {
+				pos++;
+				conditions.push({ field, operator: "LIKE", values: [readValue()] });
+			} else if (t?.kind === "symbol" && /^[<>=]/.test(t.value)) {
+				pos++;
+				conditions.push({ field, operator: t.value, values: [readValue()] });
+			} else {
+				throw queryError(`Unsupported operator after ${field}`);
+			}
+		} while (isKeyword("AND"));
+	}
+
+	const orderBy: ParsedQuery["orderBy"] = [];
+	if (isKeyword("ORDERBY") || isKeyword("ORDER")) {
+		if (isKeyword("ORDER")) {
+			pos++;
+			expectKeyword("BY");
+		} else {
+			pos++;
+		}
+		do {
+			if (orderBy.length > 0) pos++; // comma
+			const field = expectWord();
+			let direction: "ASC" | "DESC" = "ASC";
+			if (isKeyword("ASC") || isKeyword("DESC")) {
+				direction = expectWord().toUpperCase() as "ASC" | "DESC";
+			}
+			orderBy.push({ field, direction });
+		} while (peek()?.kind === "symbol" && peek()?.value === ",");
+	}
+
+	let startPosition = 1;
+	let maxResults = 100;
+	if (isKeyword("STARTPOSITION")) {
+		pos++;
+		startPosition = expectNumber();
+	}
+	if (isKeyword("MAXRESULTS")) {
+		pos++;
+		maxResults = expectNumber();
+	}
+	if (maxResults > MAX_QUERY_RESULTS) {
+		throw queryError(`MAXRESULTS cannot exceed ${MAX_QUERY_RESULTS}`);
+	}
+
+	if (pos < tokens.length) {
+		throw queryError("Unexpected trailing input");
+	}
+
+	return { entity, fields, conditions, orderBy, startPosition, maxResults };
+}
+
+/** Read a (dotted) field, unwrapping Ref objects to their value */
+function readField(record: EntityRecord, field: string): unknown {
+	return readFieldValues(record, field)[0];
+}
+
+/**
+ * Resolve a dotted field path, fanning out over arrays so that e.g.
+ * `AttachableRef.EntityRef.value` matches any element. Keys are matched
+ * case-insensitively, as QBO does.
+ */
+function readFieldValues(record: EntityRecord, field: string): unknown[] {
+	let values: unknown[] = [record];
+	for (const part of field.split(".")) {
+		values = values.flatMap((value) => {
+			if (value == null || typeof value !== "object") return [];
+			const obj = value as Record<string, unknown>;
+			const key =
+				part in obj
+					? part
+					: Object.keys(obj).find(
+							(k) => k.toLowerCase() === part.toLowerCase(),
+						);
+			const next = key === undefined ? undefined : obj[key];
+			if (next === undefined) return [];
+			return Array.isArray(next) ? next : [next];
+		});
+	}
+	return values.map((value) =>
+		value && typeof value === "object" && "value" in value
+			? (value as { value: unknown }).value
+			: value,
+	);
+}
+
+function compareValues(a: unknown, b: unknown): number {
+	const numA = Number(a);
+	const numB = Number(b);
+	if (
+		a !== "" &&
+		b !== "" &&
+		typeof a !== "boolean" &&
+		!Number.isNaN(numA) &&
+		!Number.isNaN(numB)
+	) {
+		return numA - numB;
+	}
+	// QBO string comparisons are case-insensitive
+	return String(a).localeCompare(String(b), undefined, {
+		sensitivity: "accent",
+	});
+}
+
+function matches(record: EntityRecord, condition: Condition): boolean {
+	return readFieldValues(record, condition.field).some((actual) =>
+		matchesValue(actual, condition),
+	);
+}
+
+function matchesValue(actual: unknown, condition: Condition): boolean {
+	const [expected] = condition.values;
+	switch (condition.operator) {
+		case "=":
+			return compareValues(actual, expected) === 0;
+		case "<":
+			return compareValues(actual, expected) < 0;
+		case ">":
+			return compareValues(actual, expected) > 0;
+		case "<=":
+			return compareValues(actual, expected) <= 0;
+		case ">=":
+			return compareValues(actual, expected) >= 0;
+		case "IN":
+			return condition.values.some((v) => compareValues(actual, v) === 0);
+		case "LIKE": {
+			const pattern = String(expected)
+				.split("%")
+				.map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+				.join(".*");
+			return new RegExp(`^${pattern}$`, "i").test(String(actual));
+		}
+		default:
+			return false;
+	}
+}
+
+function deepMerge(target: EntityRecord, patch: EntityRecord): EntityRecord {
+	const result: EntityRecord = { ...target };
+	for (const [key, value] of Object.entries(patch)) {
+		const existing = result[key];
+		if (
+			value &&
+			typeof value === "object" &&
+			!Array.isArray(value) &&
+			existing &&
+			typeof existing === "object" &&
+			!Array.isArray(existing)
+		) {
+			result[key] = deepMerge(existing as EntityRecord, value as EntityRecord);
+		} else {
+			result[key] = value;
+		}
+	}
+	return result;
+}
+
+// ============================================
+// Fake
+// ============================================
+
+export class QuickBooksFake {
+	readonly realmId: string;
+	/** Every request received, in order */
+	readonly requests: FakeRequestLog[] = [];
+
+	private entities = new Map<string, Map<string, EntityRecord>>();
+	private accessTokens = new Map<string, number>();
+	private refreshTokens = new Set<string>();
+	private files = new Map<string, Uint8Array>();
+	private injected: FakeInjectedResponse[] = [];
+	private nextId = 1;
+	private nextToken = 1;
+	private companyInfo: EntityRecord;
+
+	constructor(options: QuickBooksFakeOptions = {}) {
+		this.realmId = options.realmId ?? "9130350000000000";
+		this.companyInfo = {
+			Id: "1",
+			SyncToken: "0",
+			CompanyName: options.companyName ?? "Sandbox Company",
+			Country: "US",
+		};
+	}
+
+	// ------------------------------------------
+	// Setup and inspection
+	// ------------------------------------------
+
+	/** Issue a valid token set for this realm */
+	issueTokens(): QuickBooksTokens {
+		const access = `fake-access-${this.nextToken}`;
+		const refresh = `fake-refresh-${this.nextToken}`;
+		this.nextToken++;
+
+		const expiresAt = Math.floor(Date.now() / 1000) + ACCESS_TOKEN_TTL_SECONDS;
+		this.accessTokens.set(access, expiresAt);
+		this.refreshTokens.add(refresh);
+
+		return {
+			access_token: access,
+			refresh_token: refresh,
+			realm_id: this.realmId,
+			expires_at: expiresAt,
+			token_type: "bearer",
+		};
+	}
+
+	/** In-memory TokenStore seeded with freshly issued tokens */
+	createTokenStore(): TokenStore {
+		let tokens: QuickBooksTokens | null = this.issueTokens();
+		return {
+			async getTokens() {
+				return tokens;
+			},
+			async storeTokens(next) {
+				tokens = next;
+			},
+			async clearTokens() {
+				tokens = null;
+			},
+		};
+	}
+
+	/** Invalidate all access tokens so the next API call gets a 401 */
+	expireAccessTokens(): void {
+		this.accessTokens.clear();
+	}
+
+	/** Insert records directly, assigning Id/SyncToken/MetaData as needed */
+	seed(entity: string, records: EntityRecord[]): EntityRecord[] {
+		return records.map((record) => this.insert(entity, { ...record }));
+	}
+
+	/** Look up a stored record */
+	get(entity: string, id: string): EntityRecord | undefined {
+		return this.store(entity).get(id);
+	}
+
+	/** All stored records of an entity type */
+	all(entity: string): EntityRecord[] {
+		return [...this.store(entity).values()];
+	}
+
+	/** Return this response for the next API request instead of handling it */
+	injectResponse(response: FakeInjectedResponse): void {
+		this.injected.push(response);
+	}
+
+	/** Shorthand for injecting a Fault response */
+	injectFault(
+		status: number,
+		error: FaultError,
+		type = "ValidationFault",
+	): void {
+		this.injectResponse({
+			status,
+			body: new FakeFault(status, type, [error]).toBody(),
+		});
+	}
+
+	// ------------------------------------------
+	// HTTP entry point
+	// ------------------------------------------
+
+	/** Fetch implementation to pass to the client */
+	readonly fetch: FetchFunction = async (url, init = {}) => {
+		const method = (init.method ?? "GET").toUpperCase();
+		const parsed = new URL(url);
+		const body = init.body;
+
+		this.requests.push({ method, url, body });
+
+		try {
+			if (parsed.hostname === "oauth.platform.intuit.com") {
+				return this.handleToken(String(body ?? ""));
+			}
+			if (parsed.hostname === "developer.api.intuit.com") {
+				return this.handleRevoke(String(body ?? ""));
+			}
+			if (parsed.hostname === DOWNLOAD_HOST) {
+				return this.handleDownload(parsed);
+			}
+
+			const injected = this.injected.shift();
+			if (injected) {
+				return this.json(
+					injected.status,
+					injected.body ?? {},
+					injected.headers,
+				);
+			}
+
+			return await this.handleApi(method, parsed, init);
+		} catch (error) {
+			if (error instanceof FakeFault) {
+				return this.json(error.status, error.toBody());
+			}
+			throw error;
+		}
+	};
+
+	// ------------------------------------------
+	// OAuth
+	// ------------------------------------------
+
+	private handleToken(body: string): Response {
+		const params = new URLSearchParams(body);
+		const grantType = params.get("grant_type");
+
+		if (grantType === "refresh_token") {
+			const refresh = params.get("refresh_token") ?? "";
+			if (!this.refreshTokens.has(refresh)) {
+				return this.json(400, { error: "invalid_grant" });
+			}
+			// Intuit rotates the refresh token on every use
+			this.refreshTokens.delete(refresh);
+		} else if (grantType !== "authorization_code") {
+			return this.json(400, { error: "unsupported_grant_type" });
+		}
+
+		const tokens = this.issueTokens();
+		return this.json(200, {
+			access_token: tokens.access_token,
+			refresh_token: tokens.refresh_token,
+			token_type: "bearer",
+			expires_in: ACCESS_TOKEN_TTL_SECONDS,
+			x_refresh_token_expires_in: REFRESH_TOKEN_TTL_SECONDS,
+		});
+	}
+
+	private handleRevoke(body: string): Response {
+		const { token } = JSON.parse(body || "{}") as { token?: string };
+		if (token) {
+			this.accessTokens.delete(token);
+			this.refreshTokens.delete(token);
+		}
+		return new Response(null, { status: 200 });
+	}
+
+	// ------------------------------------------
+	// API routing
+	// ------------------------------------------
+
+	private async handleApi(
+		method: string,
+		url: URL,
+		init: RequestInit,
+	): Promise<Response> {
+		this.authenticate(new Headers(init.headers));
+
+		const match = /^\/v3\/company\/([^/]+)\/(.+)$/.exec(url.pathname);
+		if (!match) {
+			throw this.notFound(url.pathname);
+		}
+
+		const [, realmId, path] = match;
+		if (realmId !== this.realmId) {
+			throw new FakeFault(403, "AuthorizationFault", [
+				{ Message: "Authorization Failure", code: "003100" },
+			]);
+		}
+
+		const segments = path.split("/");
+		const resource = segments[0].toLowerCase();
+
+		if (resource === "query") {
+			return this.ok(this.runQuery(await this.readText(init.body)));
+		}
+		if (resource === "batch" && method === "POST") {
+			return this.ok(this.runBatch(await this.readJson(init.body)));
+		}
+		if (resource === "upload" && method === "POST") {
+			return this.ok(await this.runUpload(init.body));
+		}
+		if (resource === "companyinfo" && method === "GET") {
+			return this.ok({ CompanyInfo: this.companyInfo });
+		}
+
+		const entity = this.entityName(resource);
+		if (method === "GET" && segments[2] === "pdf") {
+			const record = this.read(entity, segments[1]);
+			return new Response(`%PDF-1.4\n% ${entity} ${record.Id}\n%%EOF\n`, {
+				status: 200,
+				headers: { "Content-Type": "application/pdf" },
+			});
+		}
+		if (method === "POST" && segments[2] === "send") {
+			return this.ok({
+				[entity]: this.send(
+					entity,
+					segments[1],
+					url.searchParams.get("sendTo"),
+				),
+			});
+		}
+		if (method === "GET" && segments[1]) {
+			const record = this.read(entity, segments[1]);
+			if (entity === "Attachable" && this.files.has(record.Id as string)) {
+				// QBO mints a short-lived download link on every read
+				return this.ok({
+					[entity]: {
+						...record,
+						TempDownloadUri: `https://${DOWNLOAD_HOST}/${record.Id}?token=${this.nextToken++}`,
+					},
+				});
+			}
+			return this.ok({ [entity]: record });
+		}
+		if (method === "POST" && segments.length === 1) {
+			const payload = await this.readJson(init.body);
+			const operation =
+				url.searchParams.get("operation") ??
+				(url.searchParams.get("include") === "void" ? "void" : null);
+			return this.ok({ [entity]: this.write(entity, payload, operation) });
+		}
+
+		throw this.notFound(url.pathname);
+	}
+
+	private authenticate(headers: Headers): void {
+		const auth = headers.get("Authorization") ?? "";
+		const token = auth.replace(/^Bearer\s+/i, "");
+		const expiresAt = this.accessTokens.get(token);
+
+		if (!expiresAt || expiresAt <= Math.floor(Date.now() / 1000)) {
+			throw new FakeFault(401, "AUTHENTICATION", [
+				{
+					Message:
+						"message=AuthenticationFailed; errorCode=003200; statusCode=401",
+					code: "3200",
+				},
+			]);
+		}
+	}
+
+	// ------------------------------------------
+	// Entity operations
+	// ------------------------------------------
+
+	private entityName(resource: string): string {
+		const name = ENTITY_NAMES.find((e) => e.toLowerCase() === resource);
+		if (!name) throw this.notFound(resource);
+		return name;
+	}
+
+	private store(entity: string): Map<string, EntityRecord> {
+		let records = this.entities.get(entity);
+		if (!records) {
+			records = new Map();
+			this.entities.set(entity, records);
+		}
+		return records;
+	}
+
+	private read(entity: string, id: string): EntityRecord {
+		const record = this.store(entity).get(id);
+		if (!record) {
+			throw new FakeFault(400, "ValidationFault", [
+				{
+					Message: "Object Not Found",
+					Detail: `Object Not Found : Something you're trying to use has been made inactive. Check the fields with accounts, customers, items, vendors or employees.`,
+					code: "610",
+					element: "Id",
+				},
+			]);
+		}
+		return record;
+	}
+
+	private write(
+		entity: string,
+		payload: EntityRecord,
+		operation: string | null,
+	): EntityRecord {
+		if (operation === "delete") {
+			return this.remove(entity, payload);
+		}
+		if (operation === "void") {
+			return this.voidRecord(entity, payload);
+		}
+		if (payload.Id == null) {
+			return this.insert(entity, payload);
+		}
+		return this.update(entity, payload);
+	}
+
+	private insert(entity: string, payload: EntityRecord): EntityRecord {
+		this.assertUniqueName(entity, payload);
+
+		const now = new Date().toISOString();
+		// Name-list entities default to active, as in QBO
+		const defaults = entity in UNIQUE_NAME_FIELDS ? { Active: true } : {};
+		const record: EntityRecord = {
+			...defaults,
+			...payload,
+			Id: payload.Id != null ? String(payload.Id) : String(this.nextId++),
+			SyncToken: "0",
+			MetaData: { CreateTime: now, LastUpdatedTime: now },
+		};
+
+		this.store(entity).set(record.Id as string, record);
+		return record;
+	}
+
+	private update(entity: string, payload: EntityRecord): EntityRecord {
+		const existing = this.read(entity, String(payload.Id));
+		this.assertSyncToken(existing, payload);
+		this.assertUniqueName(entity, payload, String(payload.Id));
+
+		const { sparse, ...fields } = payload;
+		const base = sparse
+			? deepMerge(existing, fields)
+			: { ...fields, Id: existing.Id };
+
+		const record: EntityRecord = {
+			...base,
+			SyncToken: String(Number(existing.SyncToken) + 1),
+			MetaData: {
+				...(existing.MetaData as EntityRecord),
+				LastUpdatedTime: new Date().toISOString(),
+			},
+		};
+
+		this.store(entity).set(record.Id as string, record);
+		return record;
+	}
+
+	private remove(entity: string, payload: EntityRecord): EntityRecord {
+		const existing = this.read(entity, String(payload.Id));
+		this.assertSyncToken(existing, payload);
+		this.store(entity).delete(existing.Id as string);
+		return { Id: existing.Id, status: "Deleted", domain: "QBO" };
+	}
+
+	private voidRecord(entity: string, payload: EntityRecord): EntityRecord {
+		if (!VOIDABLE_ENTITIES.has(entity)) {
+			throw new FakeFault(400, "ValidationFault", [
+				{
+					Message: "Operation Not Supported",
+					Detail: `Operation void is not supported for ${entity}`,
+					code: "4001",
+				},
+			]);
+		}
+
+		const existing = this.read(entity, String(payload.Id));
+		this.assertSyncToken(existing, payload);
+
+		const lines = (existing.Line as EntityRecord[] | undefined) ?? [];
+		return this.update(entity, {
+			...existing,
+			Line: lines.map((line) => ({ ...line, Amount: 0 })),
+			TotalAmt: 0,
+			Balance: 0,
+			PrivateNote: "Voided",
+		});
+	}
+
+	private send(
+		entity: string,
+		id: string,
+		sendTo: string | null,
+	): EntityRecord {
+		const existing = this.read(entity, id);
+		// Purchase orders go to the vendor's POEmail; everything else to BillEmail
+		const emailField = entity === "PurchaseOrder" ? "POEmail" : "BillEmail";
+		const address =
+			sendTo ??
+			(existing[emailField] as { Address?: string } | undefined)?.Address;
+
+		if (!address) {
+			throw new FakeFault(400, "ValidationFault", [
+				{
+					Message: "Invalid Email Address",
+					Detail: "An email address is required to send this transaction",
+					code: "6000",
+				},
+			]);
+		}
+
+		const record: EntityRecord = {
+			...existing,
+			[emailField]: { Address: address },
+			EmailStatus: "EmailSent",
+			SyncToken: String(Number(existing.SyncToken) + 1),
+		};
+		this.store(entity).set(id, record);
+		return record;
+	}
+
+	private assertSyncToken(existing: EntityRecord, payload: EntityRecord): void {
+		if (String(payload.SyncToken) !== existing.SyncToken) {
+			throw new FakeFault(400, "ValidationFault", [
+				{
+					Message: "Stale Object Error",
+					Detail: `Stale Object Error : You and another user were working on the same thing. Please try again. Current SyncToken: ${existing.SyncToken}`,
+					code: "5010",
+				},
+			]);
+		}
+	}
+
+	private assertUniqueName(
+		entity: string,
+		payload: EntityRecord,
+		ownId?: string,
+	): void {
+		const field = UNIQUE_NAME_FIELDS[entity];
+		const name = field ? payload[field] : undefined;
+		if (name == null) return;
+
+		for (const record of this.store(entity).values()) {
+			if (record.Id !== ownId && record[field] === name) {
+				throw new FakeFault(400, "ValidationFault", [
+					{
+						Message: "Duplicate Name Exists Error",
+						Detail: `The name supplied already exists. : Id=${record.Id}`,
+						code: "6240",
+					},
+				]);
+			}
+		}
+	}
+
+	// ------------------------------------------
+	// Query, batch and upload
+	// ------------------------------------------
+
+	private runQuery(sql: string): Record<string, unknown> {
+		const query = parseQuery(sql);
+		const entity = this.entityName(query.entity.toLowerCase());
+
+		let rows = this.all(entity).filter((record) =>
+			query.conditions.every((c) => matches(record, c)),
+		);
+
+		if (query.fields === "count") {
+			return {
+				QueryResponse: { totalCount: rows.length },
+				time: new Date().toISOString(),
+			};
+		}
+
+		if (query.orderBy.length > 0) {
+			rows = [...rows].sort((a, b) => {
+				for (const { field, direction } of query.orderBy) {
+					const diff = compareValues(readField(a, field), readField(b, field));
+					if (diff !== 0) return direction === "ASC" ? diff : -diff;
+				}
+				return 0;
+			});
+		}
+
+		const page = rows.slice(
+			query.startPosition - 1,
+			query.startPosition - 1 + query.maxResults,
+		);
+		const fields = query.fields;
+		const projected =
+			fields === "*"
+				? page
+				: page.map((record) =>
+						Object.fromEntries(fields.map((f) => [f, record[f]])),
+					);
+
+		const response: Record<string, unknown> = {};
+		if (projected.length > 0) {
+			response[entity] = projected;
+			response.startPosition = query.startPosition;
+			response.maxResults = projected.length;
+		}
+
+		return { QueryResponse: response, time: new Date().toISOString() };
+	}
+
+	private runBatch(payload: EntityRecord): Record<string, unknown> {
+		const items = (payload.BatchItemRequest ?? []) as EntityRecord[];
+		if (items.length > 30) {
+			throw new FakeFault(400, "ValidationFault", [
+				{
+					Message: "Batch request exceeds the maximum of 30 items",
+					code: "1000",
+				},
+			]);
+		}
+
+		const responses = items.map((item) => {
+			const bId = item.bId;
+			try {
+				if (item.operation === "query") {
+					const sql = String(item.Query ?? item.optionsData ?? "");
+					const { QueryResponse } = this.runQuery(sql);
+					return { bId, QueryResponse };
+				}
+
+				const entity = Object.keys(item).find(
+					(key) => !["bId", "operation", "optionsData"].includes(key),
+				);
+				if (!entity) {
+					throw new FakeFault(400, "ValidationFault", [
+						{
+							Message: "Batch item is missing an entity payload",
+							code: "2000",
+						},
+					]);
+				}
+
+				const name = this.entityName(entity.toLowerCase());
+				const record = this.write(
+					name,
+					item[entity] as EntityRecord,
+					item.operation === "delete" ? "delete" : null,
+				);
+				return { bId, [name]: record };
+			} catch (error) {
+				if (error instanceof FakeFault) {
+					return {
+						bId,
+						Fault: { Error: error.errors, type: error.type },
+					};
+				}
+				throw error;
+			}
+		});
+
+		return { BatchItemResponse: responses, time: new Date().toISOString() };
+	}
+
+	private async runUpload(body: unknown): Promise<Record<string, unknown>> {
+		if (!(body instanceof FormData)) {
+			throw new FakeFault(400, "ValidationFault", [
+				{ Message: "Upload requires multipart/form-data", code: "2000" },
+			]);
+		}
+
+		const metadataPart = body.get("file_metadata_0");
+		const filePart = body.get("file_content_0");
+		const metadata =
+			metadataPart instanceof Blob
+				? (JSON.parse(await metadataPart.text()) as EntityRecord)
+				: {};
+
+		const content =
+			filePart instanceof Blob
+				? new Uint8Array(await filePart.arrayBuffer())
+				: new Uint8Array();
+		const record = this.insert("Attachable", {
+			...metadata,
+			Size: content.byteLength,
+		});
+		this.files.set(record.Id as string, content);
+
+		return {
+			AttachableResponse: [{ Attachable: record }],
+			time: new Date().toISOString(),
+		};
+	}
+
+	private handleDownload(url: URL): Response {
+		const id = url.pathname.slice(1);
+		const content = this.files.get(id);
+		if (!content) {
+			return new Response("Not Found", { status: 404 });
+		}
+		const attachable = this.entities.get("Attachable")?.get(id);
+		return new Response(content, {
+			status: 200,
+			headers: {
+				"Content-Type": String(
+					attachable?.ContentType ?? "application/octet-stream",
+				),
+			},
+		});
+	}
+
+	// ------------------------------------------
+	// Helpers
+	// ------------------------------------------
+
+	private async readText(body: unknown): Promise<string> {
+		if (body == null) return "";
+		if (typeof body === "string") return body;
+		return new Response(
+			body as ConstructorParameters<typeof Response>[0],
+		).text();
+	}
+
+	private async readJson(body: unknown): Promise<EntityRecord> {
+		const text = await this.readText(body);
+		try {
+			return JSON.parse(text || "{}") as EntityRecord;
+		} catch {
+			throw new FakeFault(400, "ValidationFault", [
+				{
+					Message: "Request has invalid or unsupported property",
+					code: "2010",
+				},
+			]);
+		}
+	}
+
+	private notFound(path: string): FakeFault {
+		return new FakeFault(400, "ValidationFault", [
+			{ Message: `Unsupported operation: ${path}`, code: "4001" },
+		]);
+	}
+
+	private ok(body: Record<string, unknown>): Response {
+		return this.json(200, { time: new Date().toISOString(), ...body });
+	}
+
+	private json(
+		status: number,
+		body: unknown,
+		headers: Record<string, string> = {},
+	): Response {
+		return new Response(JSON.stringify(body), {
+			status,
+			headers: { "Content-Type": "application/json", ...headers },
+		});
+	}
+}
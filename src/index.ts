@@ -6,14 +6,35 @@
 
 // Main client
 export { QuickBooksClient } from "./client.js";
-export type { QuickBooksErrorCode } from "./errors.js";
-
+// Sparse update diffs
+export { diffEntity, hasChanges } from "./diff.js";
+export type {
+	QuickBooksErrorCode,
+	QuickBooksFault,
+	QuickBooksFaultError,
+} from "./errors.js";
 // Errors
 export {
+	AuthorizationError,
+	abortToError,
+	BusinessRuleError,
+	DuplicateNameError,
+	faultToError,
 	handleQuickBooksError,
+	PaginationError,
 	QB_ERROR_CODES,
 	QuickBooksError,
+	StaleObjectError,
+	TimeBillingError,
+	ValidationError,
 } from "./errors.js";
+// Testing
+export type {
+	FakeInjectedResponse,
+	FakeRequestLog,
+	QuickBooksFakeOptions,
+} from "./fake.js";
+export { QuickBooksFake } from "./fake.js";
 // OAuth utilities
 export {
 	calculateTokenExpiry,
@@ -24,50 +45,156 @@ export {
 	refreshTokens,
 	revokeTokens,
 } from "./oauth.js";
+// Query builder
+export type {
+	ComparisonOperator,
+	QueryField,
+	QueryOperator,
+	QueryValue,
+	SortDirection,
+} from "./query.js";
+export { createQuery, escapeQueryValue, QueryBuilder } from "./query.js";
+// Rate limiting
+export {
+	InMemoryRateLimiter,
+	SharedRateLimiter,
+	SlidingWindowRateLimiter,
+} from "./rate-limit.js";
+// Multi-realm
+export { QuickBooksRealmManager } from "./realms.js";
+// Reports
+export { parseReport, walkReport } from "./reports.js";
+// Transport
+export { createTransport } from "./transport.js";
 
 // Types
 export type {
 	Account,
 	Address,
+	AgedReportParams,
 	Attachable,
+	AttachableDownload,
 	AttachableRef,
 	BaseEntity,
 	// Batch
+	BatchItemFailure,
 	BatchItemRequest,
 	BatchItemResponse,
+	BatchItemSuccess,
+	BatchOptions,
 	BatchResponse,
+	BatchResult,
 	Bill,
+	BillableTimeResult,
 	BillLine,
 	BillPayment,
 	BillPaymentLine,
+	BillTimeActivitiesOptions,
+	CallOptions,
+	// Change Data Capture
+	CDCResponse,
+	ChangeDataCaptureResult,
+	Class,
 	CompanyInfo,
 	CreditMemo,
 	CreditMemoLine,
 	Customer,
+	DeletedEntity,
+	Department,
+	Deposit,
+	DepositLine,
+	Employee,
+	EntityChanges,
+	EntityMap,
+	Estimate,
+	EstimateLine,
+	FetchFunction,
+	GeneralLedgerParams,
 	// Entities
+	InMemoryRateLimiterOptions,
 	Invoice,
 	InvoiceLine,
 	Item,
+	JournalEntry,
+	JournalEntryLine,
+	JournalEntryLineDetail,
+	LinkedTxn,
 	OAuthTokenResponse,
+	ParsedReport,
 	Payment,
 	PaymentLine,
+	PaymentMethod,
+	Purchase,
+	PurchaseLine,
+	PurchaseOrder,
+	PurchaseOrderLine,
 	// API Types
+	QueryIterateOptions,
+	QueryPage,
 	QueryResponse,
 	QuickBooksApiError,
 	QuickBooksClientOptions,
 	// Config & Options
 	QuickBooksConfig,
+	QuickBooksHttpRequest,
+	QuickBooksMiddleware,
+	QuickBooksRealmManagerOptions,
 	QuickBooksTokens,
+	RateLimitContext,
+	RateLimiter,
+	RateLimitStore,
+	RealmRateLimits,
+	RealmTokenStore,
 	// Common
 	Ref,
+	ReferenceEntityName,
+	RefundReceipt,
+	RefundReceiptLine,
+	ReportCell,
+	ReportColData,
+	ReportColumn,
+	// Reports
+	ReportName,
+	ReportNode,
+	ReportParams,
+	ReportRawRow,
+	ReportResponse,
+	ReportTableRow,
+	SalesReceipt,
+	SalesReceiptLine,
+	SendableEntityName,
+	SharedRateLimiterOptions,
+	SummarizeColumnBy,
 	// Tax
 	TaxCode,
 	TaxLine,
 	TaxRate,
 	TaxRateDetail,
+	Term,
+	TimeActivity,
 	TokenStore,
+	Transfer,
 	TxnTaxDetail,
+	UpdatableEntityName,
+	UpdateOptions,
+	UpdateWithOptions,
 	Vendor,
 	VendorCredit,
 	VendorCreditLine,
+	// Webhooks
+	WebhookEvent,
+	WebhookOperation,
+	WebhookPayload,
 } from "./types.js";
+// Webhooks
+export type {
+	FetchWebhookEntitiesOptions,
+	WebhookEntityResult,
+} from "./webhooks.js";
+export {
+	fetchWebhookEntities,
+	parseWebhookPayload,
+	verifyAndParseWebhook,
+	verifyWebhookSignature,
+	WEBHOOK_SIGNATURE_HEADER,
+} from "./webhooks.js";
@@ -5,6 +5,7 @@
  */
 
 import { QB_ERROR_CODES, QuickBooksError } from "./errors.js";
+import { createTransport } from "./transport.js";
 import type {
 	OAuthTokenResponse,
 	QuickBooksConfig,
@@ -63,7 +64,7 @@ export async function exchangeCodeForTokens(
 		`${config.clientId}:${config.clientSecret}`,
 	).toString("base64");
 
-	const response = await fetch(ENDPOINTS[env].token, {
+	const response = await createTransport(config)(ENDPOINTS[env].token, {
 		method: "POST",
 		headers: {
 			"Content-Type": "application/x-www-form-urlencoded",
@@ -112,7 +113,7 @@ export async function refreshTokens(
 		`${config.clientId}:${config.clientSecret}`,
 	).toString("base64");
 
-	const response = await fetch(ENDPOINTS[env].token, {
+	const response = await createTransport(config)(ENDPOINTS[env].token, {
 		method: "POST",
 		headers: {
 			"Content-Type": "application/x-www-form-urlencoded",
@@ -159,7 +160,7 @@ export async function revokeTokens(
 		`${config.clientId}:${config.clientSecret}`,
 	).toString("base64");
 
-	const response = await fetch(ENDPOINTS[env].revoke, {
+	const response = await createTransport(config)(ENDPOINTS[env].revoke, {
 		method: "POST",
 		headers: {
 			"Content-Type": "application/json",
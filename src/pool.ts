@@ -0,0 +1,25 @@
+/**
+ * Bounded-concurrency helper for fanning out API calls
+ */
+
+/**
+ * Run `fn` over every item with at most `concurrency` calls in flight.
+ * Each worker pulls the next item until none remain. Rejects with the
+ * first error `fn` throws; callers that want per-item results catch inside it.
+ */
+export async function runWithConcurrency<T>(
+	items: T[],
+	concurrency: number,
+	fn: (item: T) => Promise<void>,
+): Promise<void> {
+	let next = 0;
+	const workers = Array.from(
+		{ length: Math.min(Math.max(1, concurrency), items.length) },
+		async () => {
+			while (next < items.length) {
+				await fn(items[next++]);
+			}
+		},
+	);
+	await Promise.all(workers);
+}
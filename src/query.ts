@@ -0,0 +1,186 @@
+/**
+ * Type-safe builder for the QuickBooks Query Language
+ *
+ * Field names are checked against the entity interfaces and every value is
+ * escaped, so filters can be built from user input without string pasting.
+ */
+
+import { QB_ERROR_CODES, QuickBooksError } from "./errors.js";
+import type { EntityMap } from "./types.js";
+
+/** Comparison operators supported by the QBO query language */
+export type ComparisonOperator = "=" | "<" | ">" | "<=" | ">=";
+
+/** All operators supported by the QBO query language */
+export type QueryOperator = ComparisonOperator | "IN" | "LIKE";
+
+/** Scalar value that can appear in a filter */
+export type QueryValue = string | number | boolean | Date;
+
+/** Queryable fields of an entity (top-level fields plus MetaData timestamps) */
+export type QueryField<T> =
+	| (keyof T & string)
+	| "MetaData.CreateTime"
+	| "MetaData.LastUpdatedTime";
+
+export type SortDirection = "ASC" | "DESC";
+
+/** Field names must be plain (optionally dotted) identifiers */
+const FIELD_PATTERN = /^[A-Za-z][A-Za-z0-9]*(\.[A-Za-z][A-Za-z0-9]*)*$/;
+
+function assertField(field: string): string {
+	if (!FIELD_PATTERN.test(field)) {
+		throw new QuickBooksError(
+			`Invalid query field: ${field}`,
+			QB_ERROR_CODES.INVALID_QUERY,
+		);
+	}
+	return field;
+}
+
+/**
+ * Escape a value for use in a query. Strings are single-quoted with
+ * backslash escaping, booleans are left bare.
+ */
+export function escapeQueryValue(value: QueryValue): string {
+	if (typeof value === "boolean") {
+		return String(value);
+	}
+	if (typeof value === "number") {
+		if (!Number.isFinite(value)) {
+			throw new QuickBooksError(
+				`Invalid numeric query value: ${value}`,
+				QB_ERROR_CODES.INVALID_QUERY,
+			);
+		}
+		return `'${value}'`;
+	}
+	const str = value instanceof Date ? value.toISOString() : value;
+	return `'${str.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Fluent builder producing a QBO query statement.
+ *
+ * @example
+ * ```ts
+ * const overdue = createQuery("Invoice")
+ *   .where("Balance", ">", 0)
+ *   .where("DueDate", "<", "2024-01-01")
+ *   .orderBy("DueDate", "ASC");
+ *
+ * const invoices = await client.getInvoices(overdue);
+ * ```
+ */
+export class QueryBuilder<T> {
+	private fields: string[] = [];
+	private conditions: string[] = [];
+	private ordering: string[] = [];
+
+	constructor(public readonly entity: string) {
+		assertField(entity);
+	}
+
+	/** Restrict the returned fields (default is all fields) */
+	select(...fields: QueryField<T>[]): this {
+		this.fields.push(...fields.map(assertField));
+		return this;
+	}
+
+	/** Add a filter. Multiple filters are combined with AND. */
+	where(
+		field: QueryField<T>,
+		operator: "IN",
+		values: readonly QueryValue[],
+	): this;
+	where(field: QueryField<T>, operator: "LIKE", pattern: string): this;
+	where(
+		field: QueryField<T>,
+		operator: ComparisonOperator,
+		value: QueryValue,
+	): this;
+	where(
+		field: QueryField<T>,
+		operator: QueryOperator,
+		value: QueryValue | readonly QueryValue[],
+	): this {
+		const name = assertField(field);
+
+		if (operator === "IN") {
+			if (!Array.isArray(value) || value.length === 0) {
+				throw new QuickBooksError(
+					`IN filter on ${name} requires a non-empty array`,
+					QB_ERROR_CODES.INVALID_QUERY,
+				);
+			}
+			const list = value.map(escapeQueryValue).join(", ");
+			this.conditions.push(`${name} IN (${list})`);
+			return this;
+		}
+
+		if (Array.isArray(value)) {
+			throw new QuickBooksError(
+				`Operator ${operator} on ${name} does not accept an array`,
+				QB_ERROR_CODES.INVALID_QUERY,
+			);
+		}
+
+		if (operator === "LIKE" && typeof value !== "string") {
+			throw new QuickBooksError(
+				`LIKE filter on ${name} requires a string pattern`,
+				QB_ERROR_CODES.INVALID_QUERY,
+			);
+		}
+
+		this.conditions.push(
+			`${name} ${operator} ${escapeQueryValue(value as QueryValue)}`,
+		);
+		return this;
+	}
+
+	/** Shorthand for `where(field, "IN", values)` */
+	whereIn(field: QueryField<T>, values: readonly QueryValue[]): this {
+		return this.where(field, "IN", values);
+	}
+
+	/** Shorthand for `where(field, "LIKE", pattern)`. Use `%` as the wildcard. */
+	whereLike(field: QueryField<T>, pattern: string): this {
+		return this.where(field, "LIKE", pattern);
+	}
+
+	/** Add a sort key. Multiple calls sort by each key in order. */
+	orderBy(field: QueryField<T>, direction: SortDirection = "ASC"): this {
+		if (direction !== "ASC" && direction !== "DESC") {
+			throw new QuickBooksError(
+				`Invalid sort direction: ${direction}`,
+				QB_ERROR_CODES.INVALID_QUERY,
+			);
+		}
+		this.ordering.push(`${assertField(field)} ${direction}`);
+		return this;
+	}
+
+	/** Render the query statement (without STARTPOSITION/MAXRESULTS) */
+	toString(): string {
+		const projection = this.fields.length > 0 ? this.fields.join(", ") : "*";
+		let sql = `SELECT ${projection} FROM ${this.entity}`;
+
+		if (this.conditions.length > 0) {
+			sql += ` WHERE ${this.conditions.join(" AND ")}`;
+		}
+		if (this.ordering.length > 0) {
+			sql += ` ORDERBY ${this.ordering.join(", ")}`;
+		}
+
+		return sql;
+	}
+}
+
+/**
+ * Start a query against a known entity type
+ */
+export function createQuery<E extends keyof EntityMap>(
+	entity: E,
+): QueryBuilder<EntityMap[E]> {
+	return new QueryBuilder<EntityMap[E]>(entity);
+}
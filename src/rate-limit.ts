@@ -0,0 +1,310 @@
+/**
+ * Rate limiting primitives
+ */
+
+import { randomUUID } from "node:crypto";
+import { abortableSleep } from "./abort.js";
+import type {
+	InMemoryRateLimiterOptions,
+	QuickBooksClientOptions,
+	RateLimitContext,
+	RateLimiter,
+	SharedRateLimiterOptions,
+} from "./types.js";
+
+/** Intuit's documented per-realm limits */
+const DEFAULT_REQUESTS_PER_MINUTE = 500;
+const DEFAULT_BATCHES_PER_MINUTE = 40;
+const DEFAULT_MAX_CONCURRENT = 10;
+
+const WINDOW_MS = 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 100;
+const DEFAULT_CONCURRENCY_TTL_MS = 60 * 1000;
+
+/**
+ * The default limiters' onWait: hitting a per-minute limit is a warning,
+ * queueing for a concurrency slot is routine and only logged at debug
+ */
+export function logRateLimitWaits(
+	onLog: QuickBooksClientOptions["onLog"],
+): InMemoryRateLimiterOptions["onWait"] {
+	return (waitTime, context, reason) => {
+		if (reason === "concurrency") {
+			onLog?.(
+				"debug",
+				`Waited ${waitTime}ms for a free request slot for realm ${context.realmId}`,
+			);
+		} else {
+			onLog?.(
+				"warn",
+				`Rate limit reached for realm ${context.realmId}, waiting ${waitTime}ms`,
+			);
+		}
+	};
+}
+
+/**
+ * In-process sliding-window limiter: at most `limit` acquisitions per
+ * `windowMs`, tracked separately for each realm when a context is given
+ */
+export class SlidingWindowRateLimiter implements RateLimiter {
+	private timestamps = new Map<string, number[]>();
+
+	constructor(
+		private limit: number,
+		private windowMs: number,
+		private onWait?: (waitMs: number, context?: RateLimitContext) => void,
+	) {}
+
+	async acquire(context?: RateLimitContext): Promise<void> {
+		const key = context?.realmId ?? "";
+
+		while (true) {
+			const now = Date.now();
+
+			// Remove timestamps older than the window
+			const recent = (this.timestamps.get(key) ?? []).filter(
+				(ts) => now - ts < this.windowMs,
+			);
+			this.timestamps.set(key, recent);
+
+			if (recent.length < this.limit) {
+				recent.push(now);
+				return;
+			}
+
+			// At the limit: wait until the oldest request leaves the window
+			const waitTime = this.windowMs - (now - recent[0]) + 100; // Add small buffer
+			this.onWait?.(waitTime, context);
+			await abortableSleep(waitTime, context?.signal);
+		}
+	}
+}
+
+/**
+ * Enforces Intuit's per-realm limits within one process: requests per
+ * minute, batch requests per minute, and requests in flight at once.
+ * Each realm is tracked separately, so one instance can serve every client.
+ */
+export class InMemoryRateLimiter implements RateLimiter {
+	private requests: SlidingWindowRateLimiter;
+	private batches: SlidingWindowRateLimiter;
+	private maxConcurrent: number;
+	private inFlight = new Map<string, number>();
+	private waiting = new Map<string, Array<() => void>>();
+
+	constructor(private options: InMemoryRateLimiterOptions = {}) {
+		this.requests = new SlidingWindowRateLimiter(
+			options.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE,
+			WINDOW_MS,
+			this.reportWait,
+		);
+		this.batches = new SlidingWindowRateLimiter(
+			options.batchesPerMinute ?? DEFAULT_BATCHES_PER_MINUTE,
+			WINDOW_MS,
+			this.reportWait,
+		);
+		this.maxConcurrent = options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT;
+	}
+
+	async acquire(context?: RateLimitContext): Promise<void> {
+		const ctx = context ?? { realmId: "", kind: "request" };
+
+		if (ctx.kind === "batch") {
+			await this.batches.acquire(ctx);
+		}
+		await this.requests.acquire(ctx);
+		await this.acquireSlot(ctx);
+	}
+
+	release(context: RateLimitContext): void {
+		const queue = this.waiting.get(context.realmId);
+		const next = queue?.shift();
+		if (next) {
+			// Hand the slot straight to the next waiter
+			next();
+			return;
+		}
+
+		const count = this.inFlight.get(context.realmId) ?? 0;
+		if (count <= 1) {
+			this.inFlight.delete(context.realmId);
+		} else {
+			this.inFlight.set(context.realmId, count - 1);
+		}
+	}
+
+	private async acquireSlot(context: RateLimitContext): Promise<void> {
+		const count = this.inFlight.get(context.realmId) ?? 0;
+		if (count < this.maxConcurrent) {
+			this.inFlight.set(context.realmId, count + 1);
+			return;
+		}
+
+		// Concurrency waits have no known length; report how long it took
+		const started = Date.now();
+		await new Promise<void>((resolve, reject) => {
+			const { signal } = context;
+			const queue = this.waiting.get(context.realmId) ?? [];
+
+			const onAbort = () => {
+				const index = queue.indexOf(grant);
+				if (index !== -1) queue.splice(index, 1);
+				reject(signal?.reason);
+			};
+			const grant = () => {
+				signal?.removeEventListener("abort", onAbort);
+				resolve();
+			};
+
+			if (signal?.aborted) {
+				reject(signal.reason);
+				return;
+			}
+			signal?.addEventListener("abort", onAbort, { once: true });
+			queue.push(grant);
+			this.waiting.set(context.realmId, queue);
+		});
+		this.options.onWait?.(Date.now() - started, context, "concurrency");
+	}
+
+	private reportWait = (waitMs: number, context?: RateLimitContext) => {
+		if (context) this.options.onWait?.(waitMs, context, "rate");
+	};
+}
+
+/**
+ * Enforces the same limits as InMemoryRateLimiter, but keeps the counters
+ * in a shared store (e.g. Redis) so every process calling a realm draws
+ * from one budget. Per-minute limits use fixed one-minute windows; each
+ * request in flight holds a lease that it gives back on release, or that
+ * expires after `concurrencyTtlMs` if its process dies.
+ *
+ * @example
+ * ```ts
+ * // Drop expired leases, then add this one if there is room - atomically
+ * const ACQUIRE_LEASE = `
+ *   local t = redis.call('TIME')
+ *   local now = t[1] * 1000 + math.floor(t[2] / 1000)
+ *   redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+ *   if redis.call('ZCARD', KEYS[1]) >= tonumber(ARGV[2]) then return 0 end
+ *   redis.call('ZADD', KEYS[1], now + tonumber(ARGV[3]), ARGV[1])
+ *   redis.call('PEXPIRE', KEYS[1], ARGV[3])
+ *   return 1`;
+ *
+ * const limiter = new SharedRateLimiter({
+ *   store: {
+ *     async increment(key, amount, ttlMs) {
+ *       const [[, value]] = await redis.multi()
+ *         .incrby(key, amount)
+ *         .pexpire(key, ttlMs, "NX")
+ *         .exec();
+ *       return value as number;
+ *     },
+ *     async acquireLease(key, leaseId, limit, ttlMs) {
+ *       return (await redis.eval(ACQUIRE_LEASE, 1, key, leaseId, limit, ttlMs)) === 1;
+ *     },
+ *     async releaseLease(key, leaseId) {
+ *       await redis.zrem(key, leaseId);
+ *     },
+ *   },
+ * });
+ * const client = new QuickBooksClient({ ...config, rateLimiter: limiter });
+ * ```
+ */
+export class SharedRateLimiter implements RateLimiter {
+	private requestsPerMinute: number;
+	private batchesPerMinute: number;
+	private maxConcurrent: number;
+	private keyPrefix: string;
+	private pollIntervalMs: number;
+	private concurrencyTtlMs: number;
+	/** Lease held by each acquired request, keyed by its context */
+	private leases = new WeakMap<RateLimitContext, string>();
+
+	constructor(private options: SharedRateLimiterOptions) {
+		this.requestsPerMinute =
+			options.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE;
+		this.batchesPerMinute =
+			options.batchesPerMinute ?? DEFAULT_BATCHES_PER_MINUTE;
+		this.maxConcurrent = options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT;
+		this.keyPrefix = options.keyPrefix ?? "qbo:ratelimit";
+		this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+		this.concurrencyTtlMs =
+			options.concurrencyTtlMs ?? DEFAULT_CONCURRENCY_TTL_MS;
+	}
+
+	async acquire(context?: RateLimitContext): Promise<void> {
+		const ctx = context ?? { realmId: "", kind: "request" };
+
+		if (ctx.kind === "batch") {
+			await this.acquireWindow(ctx, this.batchesPerMinute);
+		}
+		await this.acquireWindow(
+			{ ...ctx, kind: "request" },
+			this.requestsPerMinute,
+		);
+		await this.acquireSlot(ctx);
+	}
+
+	async release(context: RateLimitContext): Promise<void> {
+		const leaseId = this.leases.get(context);
+		if (!leaseId) return;
+
+		this.leases.delete(context);
+		await this.options.store.releaseLease(
+			this.inFlightKey(context.realmId),
+			leaseId,
+		);
+	}
+
+	/** Count this request in the current minute, waiting for the next one when full */
+	private async acquireWindow(
+		context: RateLimitContext,
+		limit: number,
+	): Promise<void> {
+		while (true) {
+			const now = Date.now();
+			const window = Math.floor(now / WINDOW_MS);
+			const count = await this.options.store.increment(
+				`${this.keyPrefix}:${context.realmId}:${context.kind}:${window}`,
+				1,
+				WINDOW_MS * 2,
+			);
+			if (count <= limit) return;
+
+			const waitTime = (window + 1) * WINDOW_MS - now;
+			this.options.onWait?.(waitTime, context, "rate");
+			await abortableSleep(waitTime, context.signal);
+		}
+	}
+
+	private async acquireSlot(context: RateLimitContext): Promise<void> {
+		const key = this.inFlightKey(context.realmId);
+		const leaseId = randomUUID();
+		const started = Date.now();
+
+		for (let attempt = 0; ; attempt++) {
+			const acquired = await this.options.store.acquireLease(
+				key,
+				leaseId,
+				this.maxConcurrent,
+				this.concurrencyTtlMs,
+			);
+			if (acquired) {
+				this.leases.set(context, leaseId);
+				if (attempt > 0) {
+					this.options.onWait?.(Date.now() - started, context, "concurrency");
+				}
+				return;
+			}
+
+			// At the cap - try again shortly
+			await abortableSleep(this.pollIntervalMs, context.signal);
+		}
+	}
+
+	private inFlightKey(realmId: string): string {
+		return `${this.keyPrefix}:${realmId}:inflight`;
+	}
+}
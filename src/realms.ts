@@ -0,0 +1,168 @@
+/**
+ * Multi-realm client manager
+ *
+ * Hands out one QuickBooksClient per connected company (realm), backed by a
+ * realm-keyed token store, one realm-keyed rate limiter and a shared
+ * app-wide rate limiter.
+ */
+
+import { QuickBooksClient } from "./client.js";
+import { QB_ERROR_CODES, QuickBooksError } from "./errors.js";
+import {
+	InMemoryRateLimiter,
+	logRateLimitWaits,
+	SlidingWindowRateLimiter,
+} from "./rate-limit.js";
+import type {
+	QuickBooksRealmManagerOptions,
+	RateLimiter,
+	RealmTokenStore,
+	TokenStore,
+} from "./types.js";
+
+const DEFAULT_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+/**
+ * Adapt a realm-keyed store to the single-realm TokenStore interface.
+ * Refreshes for a realm are queued behind each other in `refreshQueue`, so
+ * a client that was evicted mid-job and its replacement never refresh in
+ * parallel - the one that goes second picks up the rotated tokens.
+ */
+function bindTokenStore(
+	store: RealmTokenStore,
+	realmId: string,
+	refreshQueue: Map<string, Promise<void>>,
+): TokenStore {
+	const lockRefresh = store.lockRefresh?.bind(store);
+
+	return {
+		getTokens: () => store.getTokens(realmId),
+		storeTokens: (tokens) => store.storeTokens(realmId, tokens),
+		clearTokens: () => store.clearTokens(realmId),
+		lockRefresh: (fn) => {
+			const run = lockRefresh ? () => lockRefresh(realmId, fn) : fn;
+			const previous = refreshQueue.get(realmId) ?? Promise.resolve();
+			const result = previous.then(run);
+
+			const settled = result.then(
+				() => {},
+				() => {},
+			);
+			refreshQueue.set(realmId, settled);
+			settled.then(() => {
+				if (refreshQueue.get(realmId) === settled) {
+					refreshQueue.delete(realmId);
+				}
+			});
+
+			return result;
+		},
+	};
+}
+
+interface ManagedClient {
+	client: QuickBooksClient;
+	lastUsed: number;
+}
+
+export class QuickBooksRealmManager {
+	private options: QuickBooksRealmManagerOptions;
+	private clients = new Map<string, ManagedClient>();
+	private rateLimiter: RateLimiter;
+	private appRateLimiter: RateLimiter | undefined;
+	private refreshQueue = new Map<string, Promise<void>>();
+	private idleTimeoutMs: number;
+
+	constructor(options: QuickBooksRealmManagerOptions) {
+		if (!options.tokenStore) {
+			throw new QuickBooksError(
+				"tokenStore is required",
+				QB_ERROR_CODES.INVALID_CONFIG,
+			);
+		}
+
+		this.options = options;
+		this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+
+		// One limiter for every client, so re-creating an evicted client
+		// cannot reset a realm's limits
+		this.rateLimiter =
+			options.rateLimiter ??
+			new InMemoryRateLimiter({ onWait: logRateLimitWaits(options.onLog) });
+
+		if (options.appRateLimit) {
+			this.appRateLimiter = new SlidingWindowRateLimiter(
+				options.appRateLimit,
+				RATE_LIMIT_WINDOW_MS,
+				(waitTime) =>
+					options.onLog?.(
+						"warn",
+						`App-wide rate limit reached, waiting ${waitTime}ms`,
+					),
+			);
+		}
+	}
+
+	/**
+	 * Get the client for a realm, creating it on first use.
+	 * All clients share the per-realm and app-wide limits.
+	 */
+	getClient(realmId: string): QuickBooksClient {
+		if (!realmId) {
+			throw new QuickBooksError(
+				"realmId is required",
+				QB_ERROR_CODES.INVALID_REALM,
+			);
+		}
+
+		const now = Date.now();
+		this.evictIdle(now);
+
+		let entry = this.clients.get(realmId);
+		if (!entry) {
+			const { tokenStore, appRateLimit, idleTimeoutMs, ...clientOptions } =
+				this.options;
+			entry = {
+				client: new QuickBooksClient({
+					...clientOptions,
+					tokenStore: bindTokenStore(tokenStore, realmId, this.refreshQueue),
+					rateLimiter: this.rateLimiter,
+					appRateLimiter: this.appRateLimiter,
+				}),
+				lastUsed: now,
+			};
+			this.clients.set(realmId, entry);
+		}
+
+		entry.lastUsed = now;
+		return entry.client;
+	}
+
+	/**
+	 * Drop clients that have not been requested within the idle timeout.
+	 * Returns the number of clients evicted.
+	 */
+	evictIdle(now = Date.now()): number {
+		let evicted = 0;
+		for (const [realmId, entry] of this.clients) {
+			if (now - entry.lastUsed >= this.idleTimeoutMs) {
+				this.clients.delete(realmId);
+				evicted++;
+			}
+		}
+		return evicted;
+	}
+
+	/**
+	 * Drop the client for a realm (e.g. after disconnecting it)
+	 */
+	removeClient(realmId: string): boolean {
+		return this.clients.delete(realmId);
+	}
+
+	/** Number of clients currently held */
+	get size(): number {
+		return this.clients.size;
+	}
+}
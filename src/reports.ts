@@ -0,0 +1,133 @@
+/**
+ * QuickBooks Reports parsing
+ *
+ * Turns the nested Rows/ColData structure of the Reports API into a walkable
+ * tree and a flat table with money columns parsed to numbers.
+ */
+
+import type {
+	ParsedReport,
+	ReportCell,
+	ReportColData,
+	ReportColumn,
+	ReportNode,
+	ReportRawRow,
+	ReportResponse,
+	ReportTableRow,
+} from "./types.js";
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+function parseCell(col: ReportColData, column?: ReportColumn): ReportCell {
+	const raw = col.value ?? "";
+	let value: string | number | null = raw;
+
+	if (raw === "") {
+		value = null;
+	} else if (column?.ColType === "Money" && NUMBER_PATTERN.test(raw)) {
+		value = Number(raw);
+	}
+
+	return col.id ? { value, raw, id: col.id } : { value, raw };
+}
+
+function parseCells(
+	cols: ReportColData[] | undefined,
+	columns: ReportColumn[],
+): ReportCell[] {
+	return (cols ?? []).map((col, i) => parseCell(col, columns[i]));
+}
+
+function parseRows(
+	rows: ReportRawRow[] | undefined,
+	columns: ReportColumn[],
+): ReportNode[] {
+	return (rows ?? []).map((row) => {
+		const isSection = row.type === "Section" || row.Rows !== undefined;
+		const node: ReportNode = {
+			type: isSection ? "Section" : "Data",
+			cells: parseCells(isSection ? row.Header?.ColData : row.ColData, columns),
+			children: isSection ? parseRows(row.Rows?.Row, columns) : [],
+		};
+		if (row.group) node.group = row.group;
+		if (row.Summary) node.summary = parseCells(row.Summary.ColData, columns);
+		return node;
+	});
+}
+
+function flatten(
+	nodes: ReportNode[],
+	depth: number,
+	path: string[],
+	table: ReportTableRow[],
+): void {
+	for (const node of nodes) {
+		if (node.type === "Data") {
+			table.push({
+				rowType: "Data",
+				depth,
+				path,
+				group: node.group,
+				values: node.cells.map((c) => c.value),
+			});
+			continue;
+		}
+
+		const label = node.cells[0]?.raw || node.group || "";
+		if (node.cells.length > 0) {
+			table.push({
+				rowType: "Header",
+				depth,
+				path,
+				group: node.group,
+				values: node.cells.map((c) => c.value),
+			});
+		}
+
+		flatten(node.children, depth + 1, [...path, label], table);
+
+		if (node.summary) {
+			table.push({
+				rowType: "Summary",
+				depth,
+				path,
+				group: node.group,
+				values: node.summary.map((c) => c.value),
+			});
+		}
+	}
+}
+
+/**
+ * Parse a raw Reports API response
+ */
+export function parseReport(raw: ReportResponse): ParsedReport {
+	const columns = raw.Columns?.Column ?? [];
+	const rows = parseRows(raw.Rows?.Row, columns);
+	const table: ReportTableRow[] = [];
+	flatten(rows, 0, [], table);
+
+	return {
+		name: raw.Header?.ReportName ?? "",
+		header: raw.Header ?? {},
+		columns,
+		rows,
+		table,
+		raw,
+	};
+}
+
+/**
+ * Visit every node of a parsed report depth-first.
+ * Return `false` from the visitor to skip a section's children.
+ */
+export function walkReport(
+	nodes: ReportNode[],
+	visitor: (node: ReportNode, path: ReportNode[]) => unknown,
+	path: ReportNode[] = [],
+): void {
+	for (const node of nodes) {
+		if (visitor(node, path) === false) continue;
+		walkReport(node.children, visitor, [...path, node]);
+	}
+}
@@ -0,0 +1,35 @@
+/**
+ * HTTP transport
+ *
+ * Composes the configured fetch implementation with the middleware chain.
+ * Every API and OAuth call goes through the transport built here.
+ */
+
+import type {
+	FetchFunction,
+	QuickBooksConfig,
+	QuickBooksHttpRequest,
+} from "./types.js";
+
+/**
+ * Build the fetch function for a config. Middleware run in array order:
+ * the first entry sees the request first and the response last.
+ */
+export function createTransport(config: QuickBooksConfig): FetchFunction {
+	const baseFetch: FetchFunction =
+		config.fetch ?? ((url, init) => fetch(url, init));
+	const middleware = config.middleware ?? [];
+
+	const dispatch = (
+		index: number,
+		request: QuickBooksHttpRequest,
+	): Promise<Response> => {
+		const current = middleware[index];
+		if (!current) {
+			return baseFetch(request.url, request.init);
+		}
+		return current(request, (next) => dispatch(index + 1, next));
+	};
+
+	return (url, init = {}) => dispatch(0, { url, init });
+}
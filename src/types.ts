@@ -2,6 +2,9 @@
  * QuickBooks Client Types
  */
 
+import type { Readable } from "node:stream";
+import type { QuickBooksError } from "./errors.js";
+
 /** OAuth token data */
 export interface QuickBooksTokens {
 	access_token: string;
@@ -18,13 +21,65 @@ export interface QuickBooksConfig {
 	redirectUri: string;
 	environment?: "sandbox" | "production";
 	scopes?: string[];
+	/** Custom fetch implementation (proxies, custom agents). Defaults to global fetch. */
+	fetch?: FetchFunction;
+	/** Ordered middleware applied to every API and OAuth request */
+	middleware?: QuickBooksMiddleware[];
 }
 
+/** Minimal fetch signature used by the transport */
+export type FetchFunction = (
+	url: string,
+	init?: RequestInit,
+) => Promise<Response>;
+
+/** Outgoing HTTP request as seen by middleware */
+export interface QuickBooksHttpRequest {
+	url: string;
+	init: RequestInit;
+}
+
+/**
+ * Request/response middleware. Call `next` to continue the chain (optionally
+ * with a modified request) and return or transform its response.
+ *
+ * @example
+ * ```ts
+ * const addHeader: QuickBooksMiddleware = (req, next) =>
+ *   next({ ...req, init: { ...req.init, headers: { ...req.init.headers, "X-Trace": id } } });
+ * ```
+ */
+export type QuickBooksMiddleware = (
+	request: QuickBooksHttpRequest,
+	next: (request: QuickBooksHttpRequest) => Promise<Response>,
+) => Promise<Response>;
+
 /** Options for initializing the client */
 export interface QuickBooksClientOptions extends QuickBooksConfig {
 	tokenStore: TokenStore;
 	/** QBO API minor version (e.g. 75). Appended to all API URLs. */
 	minorVersion?: number;
+	/**
+	 * Cache Class, Department, Term and PaymentMethod lists for this many
+	 * milliseconds. Lookups by id or name are then served from memory.
+	 * Disabled when unset.
+	 */
+	referenceDataCacheTtlMs?: number;
+	/**
+	 * Per-realm limiter. Defaults to an InMemoryRateLimiter enforcing
+	 * Intuit's request, batch and concurrency limits; pass a
+	 * SharedRateLimiter when several processes call the same realms.
+	 */
+	rateLimiter?: RateLimiter;
+	/** Limiter shared across clients, applied after the per-realm limit */
+	appRateLimiter?: RateLimiter;
+	/**
+	 * Limit in milliseconds for each API request, including its rate-limit
+	 * waits and retries. Calls that make several requests (e.g. queryAll)
+	 * get a fresh limit for each one; use `withOptions({ timeoutMs })` for
+	 * an overall deadline. No limit when unset.
+	 */
+	requestTimeoutMs?: number;
 	/** Optional logging hook */
 	onLog?: (
 		level: "debug" | "info" | "warn" | "error",
@@ -33,6 +88,19 @@ export interface QuickBooksClientOptions extends QuickBooksConfig {
 	) => void;
 }
 
+/** Cancellation settings for calls made through `client.withOptions` */
+export interface CallOptions {
+	/** Cancels in-flight requests and any rate-limit or retry waits */
+	signal?: AbortSignal;
+	/**
+	 * Deadline for everything done through the view, however many requests
+	 * it takes. The clock starts when the view is created.
+	 */
+	timeoutMs?: number;
+	/** Overrides the client's `requestTimeoutMs` */
+	requestTimeoutMs?: number;
+}
+
 /** Token storage interface - implement this for your storage backend */
 export interface TokenStore {
 	/** Get stored tokens */
@@ -41,6 +109,116 @@ export interface TokenStore {
 	storeTokens(tokens: QuickBooksTokens): Promise<void>;
 	/** Clear stored tokens */
 	clearTokens(): Promise<void>;
+	/**
+	 * Optional distributed lock around token refresh. Implement this when
+	 * several processes share one store so only one of them refreshes;
+	 * run `fn` while holding the lock and return its result.
+	 */
+	lockRefresh?<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+/** Token storage keyed by realm, for apps connected to many companies */
+export interface RealmTokenStore {
+	/** Get stored tokens for a realm */
+	getTokens(realmId: string): Promise<QuickBooksTokens | null>;
+	/** Store tokens for a realm */
+	storeTokens(realmId: string, tokens: QuickBooksTokens): Promise<void>;
+	/** Clear stored tokens for a realm */
+	clearTokens(realmId: string): Promise<void>;
+	/** Optional distributed lock around token refresh for a realm */
+	lockRefresh?<T>(realmId: string, fn: () => Promise<T>): Promise<T>;
+}
+
+/** What a request asks a rate limiter for */
+export interface RateLimitContext {
+	realmId: string;
+	/** Batch calls also count against Intuit's separate batch quota */
+	kind: "request" | "batch";
+	/** Aborts the wait for a slot; acquire should then reject with its reason */
+	signal?: AbortSignal;
+}
+
+/**
+ * Rate limiter contract - acquire resolves once a request may be sent.
+ * The context lets one limiter track every realm separately. Limiters that
+ * cap concurrent requests implement `release`, which the client calls once
+ * the response has been read, with the same context object it acquired with.
+ */
+export interface RateLimiter {
+	acquire(context?: RateLimitContext): Promise<void>;
+	release?(context: RateLimitContext): Promise<void> | void;
+}
+
+/** Intuit's per-realm limits, used as defaults by the built-in limiters */
+export interface RealmRateLimits {
+	/** Requests per minute per realm (default 500) */
+	requestsPerMinute?: number;
+	/** Batch requests per minute per realm (default 40) */
+	batchesPerMinute?: number;
+	/** Requests in flight at once per realm (default 10) */
+	maxConcurrent?: number;
+}
+
+export interface InMemoryRateLimiterOptions extends RealmRateLimits {
+	/**
+	 * Called whenever a request has to wait: with the expected wait for a
+	 * per-minute limit (`"rate"`), or the time spent once a concurrency slot
+	 * frees up (`"concurrency"`)
+	 */
+	onWait?: (
+		waitMs: number,
+		context: RateLimitContext,
+		reason: "rate" | "concurrency",
+	) => void;
+}
+
+/**
+ * Storage contract for sharing rate limits between processes. Per-minute
+ * counters map onto Redis `INCRBY` + `PEXPIRE`; concurrency leases onto a
+ * sorted set scored by expiry time.
+ */
+export interface RateLimitStore {
+	/**
+	 * Atomically add `amount` to the counter at `key` and return the new
+	 * value. A missing key starts at 0 and should expire after `ttlMs`.
+	 */
+	increment(key: string, amount: number, ttlMs: number): Promise<number>;
+	/**
+	 * Atomically drop the expired leases at `key`, then add `leaseId`
+	 * (expiring `ttlMs` from now) if fewer than `limit` remain. Resolves
+	 * true when the lease was added.
+	 */
+	acquireLease(
+		key: string,
+		leaseId: string,
+		limit: number,
+		ttlMs: number,
+	): Promise<boolean>;
+	/** Remove a lease; a lease that already expired is ignored */
+	releaseLease(key: string, leaseId: string): Promise<void>;
+}
+
+export interface SharedRateLimiterOptions extends InMemoryRateLimiterOptions {
+	store: RateLimitStore;
+	/** Prefix for every key written to the store (default "qbo:ratelimit") */
+	keyPrefix?: string;
+	/** How often to re-check for a free concurrency slot (default 100ms) */
+	pollIntervalMs?: number;
+	/**
+	 * Expiry of each concurrency lease, so slots held by a crashed process
+	 * are eventually freed. Keep it above your longest request (default 60s).
+	 */
+	concurrencyTtlMs?: number;
+}
+
+/** Options for the multi-realm client manager */
+export interface QuickBooksRealmManagerOptions
+	extends Omit<QuickBooksClientOptions, "tokenStore" | "appRateLimiter"> {
+	tokenStore: RealmTokenStore;
+	/** App-wide requests per minute across all realms (unlimited if unset) */
+	appRateLimit?: number;
+	/** Evict clients unused for this long (default 10 minutes) */
+	idleTimeoutMs?: number;
 }
 
 /** OAuth token response from Intuit */
@@ -74,6 +252,24 @@ export interface QueryResponse<T> {
 	time?: string;
 }
 
+export interface QueryIterateOptions {
+	/** Results per request (default 1000, max 1000) */
+	pageSize?: number;
+	/** 1-based position to start from, e.g. to resume an interrupted run */
+	startPosition?: number;
+	/** Aborts iteration before the next page is requested */
+	signal?: AbortSignal;
+}
+
+/** One page yielded by `iteratePages` */
+export interface QueryPage<T> {
+	items: T[];
+	/** Position of the first item on this page */
+	startPosition: number;
+	/** Where the next page starts; undefined on the last page */
+	nextStartPosition?: number;
+}
+
 /** Ref type used throughout QBO entities */
 export interface Ref {
 	value: string;
@@ -90,6 +286,13 @@ export interface BaseEntity {
 	};
 }
 
+/** Link from one transaction to another (e.g. an Invoice to its Estimate) */
+export interface LinkedTxn {
+	TxnId: string;
+	TxnType: string;
+	TxnLineId?: string;
+}
+
 /** Address */
 export interface Address {
 	Id?: string;
@@ -119,6 +322,9 @@ export interface Invoice extends BaseEntity {
 	CurrencyRef?: Ref;
 	TxnTaxDetail?: TxnTaxDetail;
 	PrivateNote?: string;
+	DepartmentRef?: Ref;
+	LinkedTxn?: LinkedTxn[];
+	EmailStatus?: "NotSet" | "NeedToSend" | "EmailSent";
 }
 
 export interface InvoiceLine {
@@ -140,6 +346,107 @@ export interface InvoiceLine {
 	};
 }
 
+// ============================================
+// Estimate (quote)
+// ============================================
+
+export interface Estimate extends BaseEntity {
+	DocNumber?: string;
+	TxnDate?: string;
+	ExpirationDate?: string;
+	TotalAmt?: number;
+	CustomerRef?: Ref;
+	Line?: EstimateLine[];
+	BillEmail?: {
+		Address?: string;
+	};
+	BillAddr?: Address;
+	ShipAddr?: Address;
+	CustomerMemo?: {
+		value?: string;
+	};
+	CurrencyRef?: Ref;
+	TxnTaxDetail?: TxnTaxDetail;
+	PrivateNote?: string;
+	DepartmentRef?: Ref;
+	TxnStatus?: "Pending" | "Accepted" | "Closed" | "Rejected";
+	AcceptedBy?: string;
+	AcceptedDate?: string;
+	EmailStatus?: "NotSet" | "NeedToSend" | "EmailSent";
+	LinkedTxn?: LinkedTxn[];
+}
+
+/** Estimate lines share the sales line shape used by invoices */
+export type EstimateLine = InvoiceLine;
+
+// ============================================
+// SalesReceipt / RefundReceipt
+// ============================================
+
+export interface SalesReceipt extends BaseEntity {
+	DocNumber?: string;
+	TxnDate?: string;
+	TotalAmt?: number;
+	Balance?: number;
+	CustomerRef?: Ref;
+	Line?: SalesReceiptLine[];
+	/** Account the money is deposited to (defaults to Undeposited Funds) */
+	DepositToAccountRef?: Ref;
+	PaymentMethodRef?: Ref;
+	PaymentRefNum?: string;
+	BillEmail?: {
+		Address?: string;
+	};
+	BillAddr?: Address;
+	ShipAddr?: Address;
+	CustomerMemo?: {
+		value?: string;
+	};
+	CurrencyRef?: Ref;
+	TxnTaxDetail?: TxnTaxDetail;
+	PrivateNote?: string;
+	DepartmentRef?: Ref;
+	EmailStatus?: "NotSet" | "NeedToSend" | "EmailSent";
+	PrintStatus?: "NotSet" | "NeedToPrint" | "PrintComplete";
+}
+
+/** Sales receipt lines share the sales line shape used by invoices */
+export type SalesReceiptLine = InvoiceLine;
+
+export interface RefundReceipt extends BaseEntity {
+	DocNumber?: string;
+	TxnDate?: string;
+	TotalAmt?: number;
+	Balance?: number;
+	CustomerRef?: Ref;
+	Line?: RefundReceiptLine[];
+	/** Account the refund is paid from (required) */
+	DepositToAccountRef?: Ref;
+	PaymentMethodRef?: Ref;
+	PaymentRefNum?: string;
+	BillEmail?: {
+		Address?: string;
+	};
+	BillAddr?: Address;
+	ShipAddr?: Address;
+	CustomerMemo?: {
+		value?: string;
+	};
+	CurrencyRef?: Ref;
+	TxnTaxDetail?: TxnTaxDetail;
+	PrivateNote?: string;
+	DepartmentRef?: Ref;
+	PrintStatus?: "NotSet" | "NeedToPrint" | "PrintComplete";
+	CheckPayment?: {
+		CheckNum?: string;
+		Status?: string;
+		NameOnAcct?: string;
+	};
+}
+
+/** Refund receipt lines share the sales line shape used by invoices */
+export type RefundReceiptLine = InvoiceLine;
+
 // ============================================
 // Customer
 // ============================================
@@ -161,6 +468,79 @@ export interface Customer extends BaseEntity {
 	Active?: boolean;
 }
 
+// ============================================
+// Employee
+// ============================================
+
+export interface Employee extends BaseEntity {
+	DisplayName?: string;
+	GivenName?: string;
+	MiddleName?: string;
+	FamilyName?: string;
+	PrintOnCheckName?: string;
+	EmployeeNumber?: string;
+	PrimaryEmailAddr?: {
+		Address?: string;
+	};
+	PrimaryPhone?: {
+		FreeFormNumber?: string;
+	};
+	PrimaryAddr?: Address;
+	Active?: boolean;
+	BillableTime?: boolean;
+	BillRate?: number;
+	CostRate?: number;
+	HiredDate?: string;
+	ReleasedDate?: string;
+}
+
+// ============================================
+// TimeActivity
+// ============================================
+
+export interface TimeActivity extends BaseEntity {
+	TxnDate?: string;
+	NameOf?: "Employee" | "Vendor";
+	EmployeeRef?: Ref;
+	VendorRef?: Ref;
+	CustomerRef?: Ref;
+	ItemRef?: Ref;
+	ClassRef?: Ref;
+	DepartmentRef?: Ref;
+	PayrollItemRef?: Ref;
+	BillableStatus?: "Billable" | "NotBillable" | "HasBeenBilled";
+	Taxable?: boolean;
+	HourlyRate?: number;
+	CostRate?: number;
+	Hours?: number;
+	Minutes?: number;
+	BreakHours?: number;
+	BreakMinutes?: number;
+	/** ISO 8601 timestamp, used when Hours/Minutes are not set */
+	StartTime?: string;
+	EndTime?: string;
+	Description?: string;
+}
+
+/** Result of collecting billable time for a customer */
+export interface BillTimeActivitiesOptions {
+	/** Item billed for activities that have no ItemRef */
+	itemId?: string;
+	/** Rate billed for activities that have no HourlyRate */
+	hourlyRate?: number;
+	/** Create an invoice from the lines, then mark the activities billed */
+	invoice?: Partial<Invoice>;
+}
+
+export interface BillableTimeResult {
+	/** Invoice lines ready to pass to createInvoice */
+	lines: InvoiceLine[];
+	/** The activities the lines were built from; marked billed when an invoice was created */
+	activities: TimeActivity[];
+	/** Created when the `invoice` option was given */
+	invoice?: Invoice;
+}
+
 // ============================================
 // Payment
 // ============================================
@@ -182,6 +562,53 @@ export interface PaymentLine {
 	}>;
 }
 
+// ============================================
+// Deposit / Transfer
+// ============================================
+
+export interface Deposit extends BaseEntity {
+	/** Bank account the deposit is made into */
+	DepositToAccountRef?: Ref;
+	TxnDate?: string;
+	TotalAmt?: number;
+	Line?: DepositLine[];
+	CashBack?: {
+		AccountRef?: Ref;
+		Amount?: number;
+		Memo?: string;
+	};
+	CurrencyRef?: Ref;
+	DepartmentRef?: Ref;
+	PrivateNote?: string;
+}
+
+export interface DepositLine {
+	Id?: string;
+	LineNum?: number;
+	Description?: string;
+	Amount?: number;
+	/** Links to an undeposited Payment, SalesReceipt etc. */
+	LinkedTxn?: LinkedTxn[];
+	DetailType?: "DepositLineDetail" | string;
+	DepositLineDetail?: {
+		AccountRef?: Ref;
+		Entity?: Ref;
+		PaymentMethodRef?: Ref;
+		CheckNum?: string;
+		ClassRef?: Ref;
+		TxnType?: string;
+	};
+}
+
+export interface Transfer extends BaseEntity {
+	FromAccountRef?: Ref;
+	ToAccountRef?: Ref;
+	Amount?: number;
+	TxnDate?: string;
+	CurrencyRef?: Ref;
+	PrivateNote?: string;
+}
+
 // ============================================
 // Account
 // ============================================
@@ -243,6 +670,8 @@ export interface BillLine {
 	LineNum?: number;
 	Description?: string;
 	Amount?: number;
+	/** Set when the line is copied from a purchase order */
+	LinkedTxn?: LinkedTxn[];
 	DetailType?:
 		| "AccountBasedExpenseLineDetail"
 		| "ItemBasedExpenseLineDetail"
@@ -264,6 +693,65 @@ export interface BillLine {
 	};
 }
 
+// ============================================
+// Purchase (expense)
+// ============================================
+
+export interface Purchase extends BaseEntity {
+	PaymentType?: "Cash" | "Check" | "CreditCard";
+	/** Bank or credit card account the money came from */
+	AccountRef?: Ref;
+	/** Payee - vendor, customer or employee */
+	EntityRef?: Ref & { type?: "Vendor" | "Customer" | "Employee" };
+	DocNumber?: string;
+	TxnDate?: string;
+	TotalAmt?: number;
+	/** True for a credit card refund */
+	Credit?: boolean;
+	Line?: PurchaseLine[];
+	PaymentMethodRef?: Ref;
+	RemitToAddr?: Address;
+	PrintStatus?: "NotSet" | "NeedToPrint" | "PrintComplete";
+	TxnTaxDetail?: TxnTaxDetail;
+	PrivateNote?: string;
+	CurrencyRef?: Ref;
+	DepartmentRef?: Ref;
+}
+
+/** Purchase lines use the same expense line details as bills */
+export type PurchaseLine = BillLine;
+
+// ============================================
+// PurchaseOrder
+// ============================================
+
+export interface PurchaseOrder extends BaseEntity {
+	DocNumber?: string;
+	TxnDate?: string;
+	DueDate?: string;
+	TotalAmt?: number;
+	VendorRef?: Ref;
+	APAccountRef?: Ref;
+	POStatus?: "Open" | "Closed";
+	Line?: PurchaseOrderLine[];
+	POEmail?: {
+		Address?: string;
+	};
+	VendorAddr?: Address;
+	ShipAddr?: Address;
+	ShipMethodRef?: Ref;
+	Memo?: string;
+	EmailStatus?: "NotSet" | "NeedToSend" | "EmailSent";
+	TxnTaxDetail?: TxnTaxDetail;
+	PrivateNote?: string;
+	CurrencyRef?: Ref;
+	DepartmentRef?: Ref;
+	LinkedTxn?: LinkedTxn[];
+}
+
+/** Purchase order lines use the same expense line details as bills */
+export type PurchaseOrderLine = BillLine;
+
 // ============================================
 // BillPayment
 // ============================================
@@ -315,6 +803,7 @@ export interface CreditMemo extends BaseEntity {
 	TxnTaxDetail?: TxnTaxDetail;
 	PrivateNote?: string;
 	DepartmentRef?: Ref;
+	EmailStatus?: "NotSet" | "NeedToSend" | "EmailSent";
 }
 
 export interface CreditMemoLine {
@@ -373,6 +862,47 @@ export interface VendorCreditLine {
 	};
 }
 
+// ============================================
+// JournalEntry
+// ============================================
+
+export interface JournalEntry extends BaseEntity {
+	DocNumber?: string;
+	TxnDate?: string;
+	TotalAmt?: number;
+	Adjustment?: boolean;
+	Line?: JournalEntryLine[];
+	CurrencyRef?: Ref;
+	ExchangeRate?: number;
+	TxnTaxDetail?: TxnTaxDetail;
+	PrivateNote?: string;
+}
+
+export interface JournalEntryLine {
+	Id?: string;
+	LineNum?: number;
+	Description?: string;
+	Amount?: number;
+	DetailType?: "JournalEntryLineDetail" | "DescriptionOnly" | string;
+	JournalEntryLineDetail?: JournalEntryLineDetail;
+}
+
+export interface JournalEntryLineDetail {
+	PostingType?: "Debit" | "Credit";
+	AccountRef?: Ref;
+	/** Customer, vendor or employee the line relates to */
+	Entity?: {
+		Type?: "Customer" | "Vendor" | "Employee";
+		EntityRef?: Ref;
+	};
+	ClassRef?: Ref;
+	DepartmentRef?: Ref;
+	TaxCodeRef?: Ref;
+	TaxApplicableOn?: "Sales" | "Purchase";
+	TaxAmount?: number;
+	BillableStatus?: "Billable" | "NotBillable" | "HasBeenBilled";
+}
+
 // ============================================
 // Tax
 // ============================================
@@ -450,7 +980,7 @@ export interface Attachable extends BaseEntity {
 }
 
 export interface AttachableRef {
-	EntityRef?: Ref;
+	EntityRef?: Ref & { type?: string };
 	IncludeOnSend?: boolean;
 	LineInfo?: string;
 	NoRefOnly?: boolean;
@@ -458,6 +988,57 @@ export interface AttachableRef {
 	Inactive?: boolean;
 }
 
+/** One file yielded by `downloadAttachablesFor` */
+export interface AttachableDownload {
+	attachable: Attachable;
+	stream: Readable;
+}
+
+// ============================================
+// Reference data (Class, Department, Term, PaymentMethod)
+// ============================================
+
+export interface Class extends BaseEntity {
+	Name?: string;
+	SubClass?: boolean;
+	ParentRef?: Ref;
+	FullyQualifiedName?: string;
+	Active?: boolean;
+}
+
+export interface Department extends BaseEntity {
+	Name?: string;
+	SubDepartment?: boolean;
+	ParentRef?: Ref;
+	FullyQualifiedName?: string;
+	Active?: boolean;
+}
+
+export interface Term extends BaseEntity {
+	Name?: string;
+	Active?: boolean;
+	Type?: "STANDARD" | "DATE_DRIVEN";
+	DueDays?: number;
+	DiscountDays?: number;
+	DiscountPercent?: number;
+	DayOfMonthDue?: number;
+	DueNextMonthDays?: number;
+	DiscountDayOfMonth?: number;
+}
+
+export interface PaymentMethod extends BaseEntity {
+	Name?: string;
+	Active?: boolean;
+	Type?: "CREDIT_CARD" | "NON_CREDIT_CARD";
+}
+
+/** Reference entities eligible for the TTL cache */
+export type ReferenceEntityName =
+	| "Class"
+	| "Department"
+	| "Term"
+	| "PaymentMethod";
+
 // ============================================
 // CompanyInfo
 // ============================================
@@ -510,6 +1091,90 @@ export interface Item extends BaseEntity {
 	PurchaseTaxCodeRef?: Ref;
 }
 
+// ============================================
+// Entity registry
+// ============================================
+
+/** Transactions that can be emailed and downloaded as PDF */
+export type SendableEntityName =
+	| "Invoice"
+	| "CreditMemo"
+	| "Estimate"
+	| "SalesReceipt"
+	| "RefundReceipt"
+	| "PurchaseOrder";
+
+/** Entities the client can update, and therefore `updateWith` */
+export type UpdatableEntityName =
+	| "Attachable"
+	| "Bill"
+	| "BillPayment"
+	| "Class"
+	| "CreditMemo"
+	| "Customer"
+	| "Department"
+	| "Deposit"
+	| "Employee"
+	| "Estimate"
+	| "Invoice"
+	| "Item"
+	| "JournalEntry"
+	| "PaymentMethod"
+	| "Purchase"
+	| "PurchaseOrder"
+	| "RefundReceipt"
+	| "SalesReceipt"
+	| "Term"
+	| "TimeActivity"
+	| "Transfer"
+	| "Vendor"
+	| "VendorCredit";
+
+export interface UpdateOptions {
+	/**
+	 * Send a sparse update: only the fields present are changed and everything
+	 * else is left as-is, instead of being cleared by a full update
+	 */
+	sparse?: boolean;
+}
+
+export interface UpdateWithOptions {
+	/** Times to re-fetch and re-apply after a stale SyncToken (default: 3) */
+	maxRetries?: number;
+}
+
+/** Maps QBO entity names to their typed interfaces */
+export interface EntityMap {
+	Account: Account;
+	Attachable: Attachable;
+	Bill: Bill;
+	BillPayment: BillPayment;
+	Class: Class;
+	CompanyInfo: CompanyInfo;
+	CreditMemo: CreditMemo;
+	Customer: Customer;
+	Department: Department;
+	Deposit: Deposit;
+	Employee: Employee;
+	Estimate: Estimate;
+	Invoice: Invoice;
+	Item: Item;
+	JournalEntry: JournalEntry;
+	Payment: Payment;
+	PaymentMethod: PaymentMethod;
+	Purchase: Purchase;
+	PurchaseOrder: PurchaseOrder;
+	RefundReceipt: RefundReceipt;
+	SalesReceipt: SalesReceipt;
+	TaxCode: TaxCode;
+	TaxRate: TaxRate;
+	Term: Term;
+	TimeActivity: TimeActivity;
+	Transfer: Transfer;
+	Vendor: Vendor;
+	VendorCredit: VendorCredit;
+}
+
 // ============================================
 // Batch Operations
 // ============================================
@@ -542,3 +1207,254 @@ export interface BatchResponse {
 	BatchItemResponse: BatchItemResponse[];
 	time?: string;
 }
+
+export interface BatchOptions {
+	/** Number of 30-item requests in flight at once (default: 1) */
+	concurrency?: number;
+}
+
+/** A batch item that QBO applied */
+export interface BatchItemSuccess<T = unknown> {
+	bId: string;
+	/** Key of the payload in the response, e.g. "Invoice" or "QueryResponse" */
+	type: string;
+	data: T;
+}
+
+/** A batch item that QBO rejected, or whose request failed outright */
+export interface BatchItemFailure {
+	bId: string;
+	error: QuickBooksError;
+}
+
+/** Per-item outcome of `batchAll`, keyed by bId */
+export interface BatchResult<T = unknown> {
+	successes: Record<string, BatchItemSuccess<T>>;
+	failures: Record<string, BatchItemFailure>;
+}
+
+// ============================================
+// Change Data Capture
+// ============================================
+
+/** Entity reported as deleted by the CDC endpoint */
+export interface DeletedEntity {
+	Id: string;
+	status: "Deleted";
+	domain?: string;
+	MetaData?: {
+		LastUpdatedTime?: string;
+	};
+}
+
+/** Changes for a single entity type, split into updated and deleted */
+export interface EntityChanges<T> {
+	updated: T[];
+	deleted: DeletedEntity[];
+}
+
+/** Per-entity results from changeDataCapture */
+export type ChangeDataCaptureResult<E extends keyof EntityMap> = {
+	[K in E]: EntityChanges<EntityMap[K]>;
+};
+
+/** Raw response from the /cdc endpoint */
+export interface CDCResponse {
+	CDCResponse: Array<{
+		QueryResponse?: Array<
+			Record<string, unknown[] | number | undefined> & {
+				startPosition?: number;
+				maxResults?: number;
+				totalCount?: number;
+			}
+		>;
+	}>;
+	time?: string;
+}
+
+// ============================================
+// Webhooks
+// ============================================
+
+export type WebhookOperation =
+	| "Create"
+	| "Update"
+	| "Delete"
+	| "Merge"
+	| "Void"
+	| "Emailed";
+
+/** Raw webhook body as posted by Intuit */
+export interface WebhookPayload {
+	eventNotifications: Array<{
+		realmId: string;
+		dataChangeEvent?: {
+			entities?: Array<{
+				name: string;
+				id: string;
+				operation: string;
+				lastUpdated: string;
+				/** Set on Merge - the id of the entity merged away */
+				deletedId?: string;
+			}>;
+		};
+	}>;
+}
+
+/** A single entity change parsed from a webhook notification */
+export interface WebhookEvent {
+	realmId: string;
+	/** e.g. "Invoice", "Customer" */
+	entityName: string;
+	entityId: string;
+	operation: WebhookOperation;
+	lastUpdated: string;
+	deletedId?: string;
+}
+
+// ============================================
+// Reports
+// ============================================
+
+export type ReportName =
+	| "ProfitAndLoss"
+	| "BalanceSheet"
+	| "AgedReceivables"
+	| "AgedPayables"
+	| "TrialBalance"
+	| "GeneralLedger"
+	| "CustomerBalance";
+
+export type SummarizeColumnBy =
+	| "Total"
+	| "Month"
+	| "Week"
+	| "Days"
+	| "Quarter"
+	| "Year"
+	| "Customers"
+	| "Vendors"
+	| "Classes"
+	| "Departments"
+	| "Employees"
+	| "ProductsAndServices";
+
+/** Parameters shared by most reports (names match the Reports API) */
+export interface ReportParams {
+	/** YYYY-MM-DD */
+	start_date?: string;
+	/** YYYY-MM-DD */
+	end_date?: string;
+	/** e.g. "This Fiscal Year", "Last Month" - ignored when dates are set */
+	date_macro?: string;
+	accounting_method?: "Cash" | "Accrual";
+	summarize_column_by?: SummarizeColumnBy;
+	/** Customer id(s) to filter by */
+	customer?: string | string[];
+	/** Vendor id(s) to filter by */
+	vendor?: string | string[];
+	department?: string | string[];
+	class?: string | string[];
+}
+
+/** Parameters for AgedReceivables / AgedPayables */
+export interface AgedReportParams
+	extends Omit<ReportParams, "start_date" | "end_date"> {
+	/** YYYY-MM-DD, defaults to today */
+	report_date?: string;
+	aging_method?: "Report_Date" | "Current";
+	/** Days per aging bucket */
+	aging_period?: number;
+	num_periods?: number;
+}
+
+/** Parameters for GeneralLedger */
+export interface GeneralLedgerParams extends ReportParams {
+	/** Account id(s) to include */
+	account?: string | string[];
+	/** Column names to include, e.g. ["tx_date", "txn_type", "subt_nat_amount"] */
+	columns?: string[];
+	sort_by?: string;
+	sort_order?: "ascend" | "descend";
+}
+
+export interface ReportColData {
+	value?: string;
+	id?: string;
+	href?: string;
+}
+
+export interface ReportRawRow {
+	type?: "Section" | "Data";
+	group?: string;
+	ColData?: ReportColData[];
+	Header?: { ColData?: ReportColData[] };
+	Rows?: { Row?: ReportRawRow[] };
+	Summary?: { ColData?: ReportColData[] };
+}
+
+export interface ReportColumn {
+	ColTitle?: string;
+	ColType?: string;
+	MetaData?: Array<{ Name: string; Value: string }>;
+}
+
+/** Raw response from the Reports API */
+export interface ReportResponse {
+	Header?: {
+		ReportName?: string;
+		Time?: string;
+		DateMacro?: string;
+		StartPeriod?: string;
+		EndPeriod?: string;
+		ReportBasis?: string;
+		SummarizeColumnsBy?: string;
+		Currency?: string;
+		Option?: Array<{ Name: string; Value: string }>;
+	};
+	Columns?: { Column?: ReportColumn[] };
+	Rows?: { Row?: ReportRawRow[] };
+}
+
+/** A single report cell with money columns parsed to numbers */
+export interface ReportCell {
+	/** Parsed number for money columns, raw string otherwise, null when empty */
+	value: string | number | null;
+	/** Raw value as returned by the API */
+	raw: string;
+	/** Entity id when the cell links to one (e.g. an account) */
+	id?: string;
+}
+
+/** Node in the walkable report tree */
+export interface ReportNode {
+	type: "Section" | "Data";
+	group?: string;
+	/** Data row cells, or the section header cells */
+	cells: ReportCell[];
+	/** Section total cells */
+	summary?: ReportCell[];
+	children: ReportNode[];
+}
+
+/** Row in the flattened tabular form of a report */
+export interface ReportTableRow {
+	rowType: "Header" | "Data" | "Summary";
+	/** Nesting depth, 0 for top-level rows */
+	depth: number;
+	/** Labels of the enclosing sections, outermost first */
+	path: string[];
+	group?: string;
+	/** Values aligned with ParsedReport.columns */
+	values: Array<string | number | null>;
+}
+
+/** Report parsed into a tree and a flat table */
+export interface ParsedReport {
+	name: string;
+	header: NonNullable<ReportResponse["Header"]>;
+	columns: ReportColumn[];
+	rows: ReportNode[];
+	table: ReportTableRow[];
+	raw: ReportResponse;
+}
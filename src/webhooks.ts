@@ -0,0 +1,203 @@
+/**
+ * QuickBooks webhook handling
+ *
+ * Signature verification and typed parsing of Intuit webhook notifications
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { QuickBooksClient } from "./client.js";
+import {
+	handleQuickBooksError,
+	QB_ERROR_CODES,
+	QuickBooksError,
+} from "./errors.js";
+import { runWithConcurrency } from "./pool.js";
+import type {
+	EntityMap,
+	WebhookEvent,
+	WebhookOperation,
+	WebhookPayload,
+} from "./types.js";
+
+/** Header carrying the base64 HMAC-SHA256 signature of the raw body */
+export const WEBHOOK_SIGNATURE_HEADER = "intuit-signature";
+
+/**
+ * Verify the `intuit-signature` header against the raw request body.
+ * The body must be the exact bytes received - re-serialized JSON will not match.
+ */
+export function verifyWebhookSignature(
+	payload: string | Buffer,
+	signature: string | null | undefined,
+	verifierToken: string,
+): boolean {
+	if (!signature || !verifierToken) {
+		return false;
+	}
+
+	const expected = createHmac("sha256", verifierToken).update(payload).digest();
+	const received = Buffer.from(signature, "base64");
+
+	if (received.length !== expected.length) {
+		return false;
+	}
+
+	return timingSafeEqual(received, expected);
+}
+
+/**
+ * Flatten a webhook payload into one event per changed entity
+ */
+export function parseWebhookPayload(
+	payload: string | Buffer | WebhookPayload,
+): WebhookEvent[] {
+	let data: WebhookPayload;
+	try {
+		data =
+			typeof payload === "string" || Buffer.isBuffer(payload)
+				? (JSON.parse(payload.toString()) as WebhookPayload)
+				: payload;
+	} catch (error) {
+		throw new QuickBooksError(
+			"Webhook payload is not valid JSON",
+			QB_ERROR_CODES.INVALID_WEBHOOK,
+			400,
+			error,
+		);
+	}
+
+	if (!data || !Array.isArray(data.eventNotifications)) {
+		throw new QuickBooksError(
+			"Webhook payload is missing eventNotifications",
+			QB_ERROR_CODES.INVALID_WEBHOOK,
+			400,
+			data,
+		);
+	}
+
+	const events: WebhookEvent[] = [];
+	for (const notification of data.eventNotifications) {
+		for (const entity of notification.dataChangeEvent?.entities ?? []) {
+			events.push({
+				realmId: notification.realmId,
+				entityName: entity.name,
+				entityId: entity.id,
+				operation: entity.operation as WebhookOperation,
+				lastUpdated: entity.lastUpdated,
+				deletedId: entity.deletedId,
+			});
+		}
+	}
+
+	return events;
+}
+
+/**
+ * Verify the signature and parse the payload in one step.
+ * Throws a QuickBooksError when the signature does not match.
+ */
+export function verifyAndParseWebhook(
+	payload: string | Buffer,
+	signature: string | null | undefined,
+	verifierToken: string,
+): WebhookEvent[] {
+	if (!verifyWebhookSignature(payload, signature, verifierToken)) {
+		throw new QuickBooksError(
+			"Invalid webhook signature",
+			QB_ERROR_CODES.INVALID_WEBHOOK,
+			401,
+		);
+	}
+
+	return parseWebhookPayload(payload);
+}
+
+/** Fetchers for entities that can be loaded by id through the client */
+const ENTITY_FETCHERS: {
+	[K in keyof EntityMap]?: (
+		client: QuickBooksClient,
+		id: string,
+	) => Promise<EntityMap[K]>;
+} = {
+	Account: (client, id) => client.getAccount(id),
+	Attachable: (client, id) => client.getAttachable(id),
+	Bill: (client, id) => client.getBill(id),
+	BillPayment: (client, id) => client.getBillPayment(id),
+	Class: (client, id) => client.getClass(id),
+	CompanyInfo: (client) => client.getCompanyInfo(),
+	CreditMemo: (client, id) => client.getCreditMemo(id),
+	Customer: (client, id) => client.getCustomer(id),
+	Department: (client, id) => client.getDepartment(id),
+	Deposit: (client, id) => client.getDeposit(id),
+	Employee: (client, id) => client.getEmployee(id),
+	Estimate: (client, id) => client.getEstimate(id),
+	Invoice: (client, id) => client.getInvoice(id),
+	Item: (client, id) => client.getItem(id),
+	JournalEntry: (client, id) => client.getJournalEntry(id),
+	Payment: (client, id) => client.getPayment(id),
+	PaymentMethod: (client, id) => client.getPaymentMethod(id),
+	Purchase: (client, id) => client.getPurchase(id),
+	PurchaseOrder: (client, id) => client.getPurchaseOrder(id),
+	RefundReceipt: (client, id) => client.getRefundReceipt(id),
+	SalesReceipt: (client, id) => client.getSalesReceipt(id),
+	TaxCode: (client, id) => client.getTaxCode(id),
+	TaxRate: (client, id) => client.getTaxRate(id),
+	Term: (client, id) => client.getTerm(id),
+	TimeActivity: (client, id) => client.getTimeActivity(id),
+	Transfer: (client, id) => client.getTransfer(id),
+	Vendor: (client, id) => client.getVendor(id),
+	VendorCredit: (client, id) => client.getVendorCredit(id),
+};
+
+/** A webhook event paired with the current state of its entity */
+export interface WebhookEntityResult {
+	event: WebhookEvent;
+	/** Undefined for deletes, failed reads, other realms and entity types the client does not model */
+	entity?: EntityMap[keyof EntityMap];
+	/** Set when the entity could not be read, e.g. it was deleted since the notification */
+	error?: QuickBooksError;
+}
+
+/** Options for fetchWebhookEntities */
+export interface FetchWebhookEntitiesOptions {
+	/** Entities read at once (default: 4) */
+	concurrency?: number;
+}
+
+/**
+ * Load the current version of each changed entity through the client.
+ * Only events for the client's connected realm are fetched; deletes are
+ * returned without an entity. A failed read is reported on its own result
+ * as `error` rather than failing the whole notification.
+ */
+export async function fetchWebhookEntities(
+	client: QuickBooksClient,
+	events: WebhookEvent[],
+	options: FetchWebhookEntitiesOptions = {},
+): Promise<WebhookEntityResult[]> {
+	const { realmId } = await client.getConnectionStatus();
+	const results: WebhookEntityResult[] = events.map((event) => ({ event }));
+
+	const fetchOne = async (result: WebhookEntityResult): Promise<void> => {
+		const { event } = result;
+		const fetcher = ENTITY_FETCHERS[event.entityName as keyof EntityMap] as
+			| ((client: QuickBooksClient, id: string) => Promise<unknown>)
+			| undefined;
+
+		if (!fetcher || event.operation === "Delete" || event.realmId !== realmId) {
+			return;
+		}
+
+		try {
+			result.entity = (await fetcher(client, event.entityId)) as
+				| EntityMap[keyof EntityMap]
+				| undefined;
+		} catch (error) {
+			result.error = handleQuickBooksError(error);
+		}
+	};
+
+	await runWithConcurrency(results, options.concurrency ?? 4, fetchOne);
+
+	return results;
+}
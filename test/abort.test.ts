@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { combineSignals } from "../src/abort.js";
+import { QB_ERROR_CODES } from "../src/index.js";
+import { createFakeClient, delayed } from "./helpers.js";
+
+describe("withOptions", () => {
+	it("applies timeoutMs as one deadline across every page of a call", async () => {
+		const { fake, client } = createFakeClient(
+			{ requestTimeoutMs: 1_000 },
+			delayed(30),
+		);
+		fake.seed(
+			"Customer",
+			Array.from({ length: 50 }, (_, i) => ({
+				DisplayName: `Customer ${i}`,
+				Active: true,
+			})),
+		);
+
+		// Each page is well inside requestTimeoutMs, the whole call is not
+		await expect(
+			client
+				.withOptions({ timeoutMs: 100 })
+				.queryAll("SELECT * FROM Customer", 10),
+		).rejects.toMatchObject({ code: QB_ERROR_CODES.TIMEOUT });
+
+		await expect(
+			client.queryAll("SELECT * FROM Customer", 10),
+		).resolves.toHaveLength(50);
+	});
+
+	it("cancels a call waiting on a token lookup", async () => {
+		const { client } = createFakeClient({
+			tokenStore: {
+				getTokens: () => new Promise(() => {}),
+				storeTokens: async () => {},
+				clearTokens: async () => {},
+			},
+		});
+		const keepAlive = setInterval(() => {}, 1_000);
+
+		try {
+			await expect(
+				client.withOptions({ timeoutMs: 20 }).getCompanyInfo(),
+			).rejects.toMatchObject({ code: QB_ERROR_CODES.TIMEOUT });
+		} finally {
+			clearInterval(keepAlive);
+		}
+	});
+
+	it("does not fail other callers sharing a cached reference load", async () => {
+		const { fake, client } = createFakeClient(
+			{ referenceDataCacheTtlMs: 60_000 },
+			delayed(50),
+		);
+		fake.seed("Class", [{ Name: "Alpha", Active: true }]);
+
+		const [hurried, patient] = await Promise.allSettled([
+			client.withOptions({ timeoutMs: 10 }).findClassByName("Alpha"),
+			client.findClassByName("Alpha"),
+		]);
+
+		expect(hurried).toMatchObject({
+			status: "rejected",
+			reason: { code: QB_ERROR_CODES.TIMEOUT },
+		});
+		expect(patient).toMatchObject({
+			status: "fulfilled",
+			value: { Name: "Alpha" },
+		});
+	});
+});
+
+describe("combineSignals", () => {
+	const any = AbortSignal.any;
+
+	afterEach(() => {
+		AbortSignal.any = any;
+	});
+
+	it.each([
+		["AbortSignal.any", false],
+		["the fallback", true],
+	])("aborts with the first reason using %s", (_, withoutAny) => {
+		if (withoutAny) {
+			(AbortSignal as { any?: unknown }).any = undefined;
+		}
+		const first = new AbortController();
+		const second = new AbortController();
+		const combined = combineSignals(first.signal, second.signal);
+
+		second.abort(new Error("second"));
+		first.abort(new Error("first"));
+
+		expect(combined?.aborted).toBe(true);
+		expect((combined?.reason as Error).message).toBe("second");
+	});
+
+	it("returns a single signal unchanged", () => {
+		const { signal } = new AbortController();
+		expect(combineSignals(undefined, signal)).toBe(signal);
+		expect(combineSignals()).toBeUndefined();
+	});
+});
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import {
+	type BatchItemRequest,
+	type Customer,
+	PaginationError,
+	QB_ERROR_CODES,
+} from "../src/index.js";
+import { createFakeClient, delayed } from "./helpers.js";
+
+describe("token refresh", () => {
+	it("merges concurrent 401 refreshes into a single token request", async () => {
+		const { fake, client } = createFakeClient({}, delayed(5));
+		fake.expireAccessTokens();
+
+		const results = await Promise.all(
+			Array.from({ length: 5 }, () => client.getCompanyInfo()),
+		);
+
+		expect(results.every((info) => info.CompanyName)).toBe(true);
+		const refreshes = fake.requests.filter((r) =>
+			r.url.startsWith("https://oauth.platform.intuit.com"),
+		);
+		expect(refreshes).toHaveLength(1);
+	});
+});
+
+describe("updateWith", () => {
+	it("re-reads and retries when the SyncToken is stale", async () => {
+		const { fake, client } = createFakeClient();
+		const customer = await client.createCustomer({ DisplayName: "Acme" });
+
+		let calls = 0;
+		const updated = await client.updateWith(
+			"Customer",
+			customer.Id as string,
+			(current) => {
+				calls++;
+				if (calls === 1) {
+					// Someone else saves between our read and our write
+					const stored = fake.get("Customer", current.Id as string);
+					Object.assign(stored ?? {}, {
+						SyncToken: String(Number(stored?.SyncToken) + 1),
+					});
+				}
+				return { ...current, CompanyName: "Acme Ltd" };
+			},
+		);
+
+		expect(calls).toBe(2);
+		expect(updated.CompanyName).toBe("Acme Ltd");
+	});
+
+	it("gives up after maxRetries", async () => {
+		const { fake, client } = createFakeClient();
+		const customer = await client.createCustomer({ DisplayName: "Acme" });
+
+		const attempt = client.updateWith(
+			"Customer",
+			customer.Id as string,
+			(current) => {
+				const stored = fake.get("Customer", current.Id as string);
+				Object.assign(stored ?? {}, {
+					SyncToken: String(Number(stored?.SyncToken) + 1),
+				});
+				return { ...current, CompanyName: "Acme Ltd" };
+			},
+			{ maxRetries: 1 },
+		);
+
+		await expect(attempt).rejects.toMatchObject({
+			code: QB_ERROR_CODES.STALE_OBJECT,
+		});
+	});
+});
+
+describe("batchAll", () => {
+	it("splits items into requests of at most 30 and reports each item", async () => {
+		const { fake, client } = createFakeClient();
+		fake.seed("Customer", [{ DisplayName: "Taken", Active: true }]);
+
+		const items: BatchItemRequest[] = Array.from({ length: 70 }, (_, i) => ({
+			bId: `c${i}`,
+			operation: "create",
+			Customer: { DisplayName: i === 42 ? "Taken" : `Customer ${i}` },
+		}));
+
+		const result = await client.batchAll<Customer>(items, { concurrency: 2 });
+
+		const batches = fake.requests.filter((r) => r.url.includes("/batch"));
+		expect(batches).toHaveLength(3);
+		expect(Object.keys(result.successes)).toHaveLength(69);
+		expect(Object.keys(result.failures)).toEqual(["c42"]);
+		expect(result.failures.c42.error.code).toBe(QB_ERROR_CODES.DUPLICATE_NAME);
+		expect(result.successes.c0.data.DisplayName).toBe("Customer 0");
+	});
+
+	it("rejects duplicate bIds before sending anything", async () => {
+		const { fake, client } = createFakeClient();
+
+		await expect(
+			client.batchAll([
+				{ bId: "a", operation: "query", Query: "SELECT * FROM Customer" },
+				{ bId: "a", operation: "query", Query: "SELECT * FROM Customer" },
+			]),
+		).rejects.toMatchObject({ code: QB_ERROR_CODES.INVALID_CONFIG });
+		expect(fake.requests).toHaveLength(0);
+	});
+});
+
+describe("queryAll", () => {
+	it("throws a resumable PaginationError when a later page fails", async () => {
+		let queries = 0;
+		let failNext = true;
+		const { fake, client } = createFakeClient(
+			{},
+			(fetch) => async (url, init) => {
+				if (url.includes("/query") && ++queries === 2 && failNext) {
+					failNext = false;
+					return new Response(
+						JSON.stringify({
+							Fault: {
+								type: "SystemFault",
+								Error: [{ Message: "Service unavailable", code: "10000" }],
+							},
+						}),
+						{ status: 503 },
+					);
+				}
+				return fetch(url, init);
+			},
+		);
+		fake.seed(
+			"Customer",
+			Array.from({ length: 25 }, (_, i) => ({
+				DisplayName: `Customer ${String(i).padStart(2, "0")}`,
+				Active: true,
+			})),
+		);
+		const sql = "SELECT * FROM Customer ORDERBY DisplayName";
+
+		const error = await client.queryAll<Customer>(sql, 10).catch((e) => e);
+
+		expect(error).toBeInstanceOf(PaginationError);
+		expect(error.results).toHaveLength(10);
+		expect(error.resumeFrom).toBe(11);
+		expect(error.status).toBe(503);
+
+		const rest = await client.queryAll<Customer>(sql, 10, {
+			startPosition: error.resumeFrom,
+		});
+		const names = [...error.results, ...rest].map((c) => c.DisplayName);
+		expect(names).toHaveLength(25);
+		expect(new Set(names).size).toBe(25);
+	});
+});
@@ -0,0 +1,36 @@
+/**
+ * Shared setup for specs: a real QuickBooksClient wired to the in-memory fake
+ */
+
+import {
+	type FetchFunction,
+	QuickBooksClient,
+	type QuickBooksClientOptions,
+	QuickBooksFake,
+} from "../src/index.js";
+
+export function createFakeClient(
+	options: Partial<QuickBooksClientOptions> = {},
+	wrapFetch?: (fetch: FetchFunction) => FetchFunction,
+): { fake: QuickBooksFake; client: QuickBooksClient } {
+	const fake = new QuickBooksFake();
+	const client = new QuickBooksClient({
+		clientId: "client-id",
+		clientSecret: "client-secret",
+		redirectUri: "http://localhost/callback",
+		environment: "sandbox",
+		tokenStore: fake.createTokenStore(),
+		fetch: wrapFetch ? wrapFetch(fake.fetch) : fake.fetch,
+		...options,
+	});
+	return { fake, client };
+}
+
+/** Fetch wrapper that holds every API request for `ms` before answering */
+export function delayed(ms: number) {
+	return (fetch: FetchFunction): FetchFunction =>
+		async (url, init) => {
+			await new Promise((resolve) => setTimeout(resolve, ms));
+			return fetch(url, init);
+		};
+}
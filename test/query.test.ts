@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+	createQuery,
+	escapeQueryValue,
+	QB_ERROR_CODES,
+	QuickBooksError,
+} from "../src/index.js";
+import { createFakeClient } from "./helpers.js";
+
+describe("escapeQueryValue", () => {
+	it("quotes strings and escapes quotes and backslashes", () => {
+		expect(escapeQueryValue("O'Brien")).toBe("'O\\'Brien'");
+		expect(escapeQueryValue("a\\b")).toBe("'a\\\\b'");
+		expect(escapeQueryValue("x\\' OR '1'='1")).toBe(
+			"'x\\\\\\' OR \\'1\\'=\\'1'",
+		);
+	});
+
+	it("leaves booleans bare and quotes numbers and dates", () => {
+		expect(escapeQueryValue(true)).toBe("true");
+		expect(escapeQueryValue(42)).toBe("'42'");
+		expect(escapeQueryValue(new Date("2024-01-02T00:00:00Z"))).toBe(
+			"'2024-01-02T00:00:00.000Z'",
+		);
+	});
+
+	it("rejects non-finite numbers", () => {
+		expect(() => escapeQueryValue(Number.NaN)).toThrow(QuickBooksError);
+	});
+});
+
+describe("QueryBuilder", () => {
+	it("escapes every filter value", () => {
+		const sql = createQuery("Customer")
+			.where("DisplayName", "=", "Bob's 'Shop'")
+			.whereIn("Id", ["1", "2'"])
+			.orderBy("DisplayName", "DESC")
+			.toString();
+
+		expect(sql).toBe(
+			"SELECT * FROM Customer WHERE DisplayName = 'Bob\\'s \\'Shop\\'' AND Id IN ('1', '2\\'') ORDERBY DisplayName DESC",
+		);
+	});
+
+	it("rejects field names that are not identifiers", () => {
+		const query = createQuery("Customer");
+		expect(() =>
+			query.where("DisplayName = '' OR Id" as "DisplayName", "=", "x"),
+		).toThrow(expect.objectContaining({ code: QB_ERROR_CODES.INVALID_QUERY }));
+	});
+
+	it("rejects an empty IN list", () => {
+		expect(() => createQuery("Customer").whereIn("Id", [])).toThrow(
+			QuickBooksError,
+		);
+	});
+
+	it("finds records whose names contain quotes", async () => {
+		const { fake, client } = createFakeClient();
+		fake.seed("Customer", [
+			{ DisplayName: "O'Brien & Sons", Active: true },
+			{ DisplayName: "Other", Active: true },
+		]);
+
+		const customers = await client.getCustomers(
+			createQuery("Customer").where("DisplayName", "=", "O'Brien & Sons"),
+		);
+
+		expect(customers.map((c) => c.DisplayName)).toEqual(["O'Brien & Sons"]);
+	});
+});
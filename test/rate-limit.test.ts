@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import {
+	type FetchFunction,
+	InMemoryRateLimiter,
+	QB_ERROR_CODES,
+	type RateLimitStore,
+	SharedRateLimiter,
+	SlidingWindowRateLimiter,
+} from "../src/index.js";
+import { createFakeClient } from "./helpers.js";
+
+/** Fetch wrapper that records how many API requests are in flight at once */
+function trackConcurrency(delayMs: number) {
+	const stats = { inFlight: 0, peak: 0 };
+	const wrap =
+		(fetch: FetchFunction): FetchFunction =>
+		async (url, init) => {
+			stats.inFlight++;
+			stats.peak = Math.max(stats.peak, stats.inFlight);
+			try {
+				await new Promise((resolve) => setTimeout(resolve, delayMs));
+				return await fetch(url, init);
+			} finally {
+				stats.inFlight--;
+			}
+		};
+	return { stats, wrap };
+}
+
+/** RateLimitStore backed by maps, with the same semantics as the Redis example */
+function createMemoryStore(): RateLimitStore & {
+	leases: Map<string, Map<string, number>>;
+} {
+	const counters = new Map<string, number>();
+	const leases = new Map<string, Map<string, number>>();
+	return {
+		leases,
+		async increment(key, amount) {
+			const value = (counters.get(key) ?? 0) + amount;
+			counters.set(key, value);
+			return value;
+		},
+		async acquireLease(key, leaseId, limit, ttlMs) {
+			const now = Date.now();
+			const held = leases.get(key) ?? new Map<string, number>();
+			for (const [id, expiresAt] of held) {
+				if (expiresAt <= now) held.delete(id);
+			}
+			leases.set(key, held);
+			if (held.size >= limit) return false;
+			held.set(leaseId, now + ttlMs);
+			return true;
+		},
+		async releaseLease(key, leaseId) {
+			leases.get(key)?.delete(leaseId);
+		},
+	};
+}
+
+describe("InMemoryRateLimiter", () => {
+	it("caps requests in flight per realm", async () => {
+		const { stats, wrap } = trackConcurrency(20);
+		const { client } = createFakeClient(
+			{ rateLimiter: new InMemoryRateLimiter({ maxConcurrent: 3 }) },
+			wrap,
+		);
+
+		await Promise.all(
+			Array.from({ length: 12 }, () => client.getCompanyInfo()),
+		);
+
+		expect(stats.peak).toBe(3);
+	});
+
+	it("drops an aborted waiter from the queue without leaking its slot", async () => {
+		const { stats, wrap } = trackConcurrency(30);
+		const limiter = new InMemoryRateLimiter({ maxConcurrent: 1 });
+		const { client } = createFakeClient({ rateLimiter: limiter }, wrap);
+
+		const first = client.getCompanyInfo();
+		const controller = new AbortController();
+		const queued = client
+			.withOptions({ signal: controller.signal })
+			.getCompanyInfo();
+		controller.abort();
+
+		await expect(queued).rejects.toMatchObject({
+			code: QB_ERROR_CODES.ABORTED,
+		});
+		await first;
+		await client.getCompanyInfo();
+		expect(stats.peak).toBe(1);
+	});
+
+	it("logs concurrency queueing at debug, not as a rate limit warning", async () => {
+		const logs: string[] = [];
+		const { wrap } = trackConcurrency(10);
+		const { client } = createFakeClient(
+			{ onLog: (level) => logs.push(level) },
+			wrap,
+		);
+
+		await Promise.all(
+			Array.from({ length: 15 }, () => client.getCompanyInfo()),
+		);
+
+		expect(logs).not.toContain("warn");
+	});
+});
+
+describe("SlidingWindowRateLimiter", () => {
+	it("rejects a wait for the next window when the signal aborts", async () => {
+		const limiter = new SlidingWindowRateLimiter(1, 60_000);
+		await limiter.acquire({ realmId: "r", kind: "request" });
+
+		const controller = new AbortController();
+		const waiting = limiter.acquire({
+			realmId: "r",
+			kind: "request",
+			signal: controller.signal,
+		});
+		controller.abort(new Error("stop"));
+
+		await expect(waiting).rejects.toThrow("stop");
+		// Other realms are tracked separately
+		await limiter.acquire({ realmId: "other", kind: "request" });
+	});
+});
+
+describe("SharedRateLimiter", () => {
+	it("holds the concurrency cap and hands every lease back", async () => {
+		const store = createMemoryStore();
+		const { stats, wrap } = trackConcurrency(20);
+		const { client } = createFakeClient(
+			{
+				rateLimiter: new SharedRateLimiter({
+					store,
+					maxConcurrent: 2,
+					pollIntervalMs: 5,
+				}),
+			},
+			wrap,
+		);
+
+		await Promise.all(Array.from({ length: 8 }, () => client.getCompanyInfo()));
+
+		expect(stats.peak).toBe(2);
+		const remaining = [...store.leases.values()].reduce(
+			(sum, held) => sum + held.size,
+			0,
+		);
+		expect(remaining).toBe(0);
+	});
+
+	it("frees the slot of a process that never released it once its lease expires", async () => {
+		const store = createMemoryStore();
+		const limiter = new SharedRateLimiter({
+			store,
+			maxConcurrent: 1,
+			pollIntervalMs: 5,
+			concurrencyTtlMs: 30,
+		});
+
+		// Acquired and never released, as if the process had crashed
+		await limiter.acquire({ realmId: "r", kind: "request" });
+
+		const started = Date.now();
+		const context = { realmId: "r", kind: "request" as const };
+		await limiter.acquire(context);
+		expect(Date.now() - started).toBeGreaterThanOrEqual(25);
+		await limiter.release(context);
+	});
+
+	it("stops polling for a slot when the signal aborts", async () => {
+		const store = createMemoryStore();
+		const limiter = new SharedRateLimiter({
+			store,
+			maxConcurrent: 1,
+			pollIntervalMs: 5,
+		});
+		await limiter.acquire({ realmId: "r", kind: "request" });
+
+		const waiting = limiter.acquire({
+			realmId: "r",
+			kind: "request",
+			signal: AbortSignal.timeout(20),
+		});
+
+		await expect(waiting).rejects.toMatchObject({ name: "TimeoutError" });
+	});
+});
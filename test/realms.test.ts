@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import {
+	QuickBooksFake,
+	QuickBooksRealmManager,
+	type RealmTokenStore,
+} from "../src/index.js";
+
+describe("QuickBooksRealmManager", () => {
+	it("keeps one limiter and one refresh per realm across evicted clients", async () => {
+		const fake = new QuickBooksFake();
+		const store = fake.createTokenStore();
+		const tokenStore: RealmTokenStore = {
+			getTokens: () => store.getTokens(),
+			storeTokens: (_realmId, tokens) => store.storeTokens(tokens),
+			clearTokens: () => store.clearTokens(),
+		};
+		const manager = new QuickBooksRealmManager({
+			clientId: "client-id",
+			clientSecret: "client-secret",
+			redirectUri: "http://localhost/callback",
+			environment: "sandbox",
+			tokenStore,
+			idleTimeoutMs: 1,
+			fetch: async (url, init) => {
+				await new Promise((resolve) => setTimeout(resolve, 10));
+				return fake.fetch(url, init);
+			},
+		});
+
+		const first = manager.getClient(fake.realmId);
+		fake.expireAccessTokens();
+		const running = first.getCompanyInfo();
+		await new Promise((resolve) => setTimeout(resolve, 5));
+
+		// The first client is still working when it is evicted and replaced
+		const second = manager.getClient(fake.realmId);
+		expect(second).not.toBe(first);
+		await Promise.all([running, second.getCompanyInfo()]);
+
+		const refreshes = fake.requests.filter((r) =>
+			r.url.startsWith("https://oauth.platform.intuit.com"),
+		);
+		expect(refreshes).toHaveLength(1);
+	});
+});